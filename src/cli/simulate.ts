@@ -0,0 +1,196 @@
+// Headless batch runner: npm run simulate -- --help
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { YardDefinition, YardScenario, ScenarioDefinition, ScoringPolicy, SweepDefinition, HeadlessSummary } from '@/types/yard';
+import { parseScenario } from '@/lib/scenarios';
+import { DEFAULT_POLICY_ID, DEFAULT_SCORING_POLICY } from '@/lib/scoring';
+import { BUILT_IN_STRATEGIES } from '@/lib/strategies';
+import {
+  DEFAULT_SWEEP,
+  DEFAULT_HEADLESS_START,
+  expandSweep,
+  runHeadless,
+  summarizeRun,
+  eventsToCsv,
+  summaryToCsv
+} from '@/lib/headless';
+
+// Scenario start times, timetables and event messages all work in local time of day, so
+// runs only reproduce across machines when they share a time zone
+process.env.TZ = 'UTC';
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+Runs the yard simulator on virtual time and writes each run's event log plus a KPI
+summary as JSON and CSV. Options taking a list are comma separated; every combination
+of the lists is run. Times are UTC, so results don't depend on the machine's time zone.
+
+  --definition <file>   yard definition (default public/yardDefinition.json)
+  --scenario <list>     empty, preset or scenario files (default empty)
+  --seed <list>         seeds, or ranges such as 1-20 (default 1)
+  --strategy <list>     recommendation strategies: ${BUILT_IN_STRATEGIES.map(strategy => strategy.id).join(', ')} (default greedy)
+  --policy <list>       ${DEFAULT_POLICY_ID} or scoring policy files (default ${DEFAULT_POLICY_ID})
+  --arrivals <list>     trains generated on top of the scenario's own (default ${DEFAULT_SWEEP.arrivals[0]})
+  --interval <minutes>  average gap between generated arrivals (default ${DEFAULT_SWEEP.arrivalIntervalMs / 60000})
+  --start <date-time>   start time in UTC, moved on to a scenario's own start (default ${DEFAULT_HEADLESS_START})
+  --sweep <file>        JSON with any of the options above, lists as arrays; flags win
+  --out <dir>           where results go (default sim-results)
+  --no-events           write only the summary
+  --help                show this message
+`;
+
+type SweepFile = Partial<Record<'scenario' | 'seed' | 'strategy' | 'policy' | 'arrivals', (string | number)[]>> & {
+  definition?: string;
+  interval?: number;
+  start?: string;
+};
+
+function readJson(file: string): unknown {
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf8');
+  } catch {
+    throw new Error(`Cannot read ${file}`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`${file} is not valid JSON`);
+  }
+}
+
+function splitList(value: string | undefined): string[] | undefined {
+  return value === undefined ? undefined : value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function parseSeeds(items: (string | number)[]): number[] {
+  return items.flatMap(item => {
+    const range = String(item).match(/^(-?\d+)-(-?\d+)$/);
+    if (range) {
+      const [from, to] = [parseInt(range[1]), parseInt(range[2])];
+      if (to < from) throw new Error(`Seed range ${item} runs backwards`);
+      return Array.from({ length: to - from + 1 }, (_, index) => from + index);
+    }
+    const seed = Number(item);
+    if (!Number.isInteger(seed)) throw new Error(`Seed ${item} is not a whole number`);
+    return [seed];
+  });
+}
+
+function parseCounts(items: (string | number)[]): number[] {
+  return items.map(item => {
+    const count = Number(item);
+    if (!Number.isInteger(count) || count < 0) throw new Error(`Arrivals ${item} is not a count`);
+    return count;
+  });
+}
+
+function loadScenario(item: string, definition: YardDefinition): YardScenario | ScenarioDefinition {
+  if (item === 'empty' || item === 'preset') return item;
+  return parseScenario(readJson(item), definition);
+}
+
+// Policy files only need the weights they change; the rest come from the default
+function loadPolicy(item: string): ScoringPolicy {
+  if (item === DEFAULT_POLICY_ID) return DEFAULT_SCORING_POLICY;
+  const data = readJson(item) as Partial<ScoringPolicy>;
+  if (!data || typeof data.id !== 'string' || data.id === DEFAULT_POLICY_ID) {
+    throw new Error(`${item} needs an "id" other than "${DEFAULT_POLICY_ID}"`);
+  }
+  return {
+    id: data.id,
+    name: data.name || data.id,
+    siding: { ...DEFAULT_SCORING_POLICY.siding, ...data.siding },
+    workshop: { ...DEFAULT_SCORING_POLICY.workshop, ...data.workshop }
+  };
+}
+
+function checkStrategies(ids: string[]): string[] {
+  const known = BUILT_IN_STRATEGIES.map(strategy => strategy.id);
+  ids.forEach(id => {
+    if (!known.includes(id)) throw new Error(`Unknown strategy "${id}" - expected one of ${known.join(', ')}`);
+  });
+  return ids;
+}
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      definition: { type: 'string' },
+      scenario: { type: 'string' },
+      seed: { type: 'string' },
+      strategy: { type: 'string' },
+      policy: { type: 'string' },
+      arrivals: { type: 'string' },
+      interval: { type: 'string' },
+      start: { type: 'string' },
+      sweep: { type: 'string' },
+      out: { type: 'string', default: 'sim-results' },
+      'no-events': { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const file = (values.sweep ? readJson(values.sweep) : {}) as SweepFile;
+  const definition = readJson(values.definition || file.definition || 'public/yardDefinition.json') as YardDefinition;
+
+  const start = values.start || file.start || DEFAULT_HEADLESS_START;
+  const startTime = new Date(start).getTime();
+  if (isNaN(startTime)) throw new Error(`Start ${start} is not a date and time`);
+  const interval = values.interval !== undefined ? Number(values.interval) : file.interval;
+  if (interval !== undefined && !(interval > 0)) throw new Error(`Interval ${interval} is not a number of minutes`);
+
+  const scenarios = splitList(values.scenario) || file.scenario?.map(String);
+  const seeds = splitList(values.seed) || file.seed;
+  const strategies = splitList(values.strategy) || file.strategy?.map(String);
+  const policies = splitList(values.policy) || file.policy?.map(String);
+  const arrivals = splitList(values.arrivals) || file.arrivals;
+
+  const sweep: SweepDefinition = {
+    scenarios: scenarios ? scenarios.map(item => loadScenario(item, definition)) : DEFAULT_SWEEP.scenarios,
+    seeds: seeds ? parseSeeds(seeds) : DEFAULT_SWEEP.seeds,
+    strategies: strategies ? checkStrategies(strategies) : DEFAULT_SWEEP.strategies,
+    policies: policies ? policies.map(loadPolicy) : DEFAULT_SWEEP.policies,
+    arrivals: arrivals ? parseCounts(arrivals) : DEFAULT_SWEEP.arrivals,
+    arrivalIntervalMs: interval !== undefined ? interval * 60000 : DEFAULT_SWEEP.arrivalIntervalMs,
+    startTime
+  };
+
+  const runs = expandSweep(sweep);
+  const out = values.out;
+  mkdirSync(values['no-events'] ? out : join(out, 'events'), { recursive: true });
+
+  // Event logs go to disk as each run finishes, so a long sweep only holds the summaries
+  const summaries: HeadlessSummary[] = [];
+  runs.forEach((run, index) => {
+    const began = Date.now();
+    const result = runHeadless(definition, run);
+    if (!values['no-events']) {
+      writeFileSync(join(out, 'events', `${run.id}.json`), JSON.stringify(result.events, null, 2));
+      writeFileSync(join(out, 'events', `${run.id}.csv`), eventsToCsv(result.events));
+    }
+    const summary = summarizeRun(result);
+    summaries.push(summary);
+    process.stdout.write(
+      `[${index + 1}/${runs.length}] ${run.id}: ${summary.kpis.shuntMoves} shunt(s), ` +
+      `${summary.kpis.parkedArrivals} parked, ${summary.kpis.lateDispatches} late (${Date.now() - began} ms)\n`
+    );
+  });
+
+  writeFileSync(join(out, 'summary.json'), JSON.stringify(summaries, null, 2));
+  writeFileSync(join(out, 'summary.csv'), summaryToCsv(summaries));
+  process.stdout.write(`Wrote ${runs.length} run(s) to ${out}\n`);
+}
+
+try {
+  main();
+} catch (error) {
+  process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+  process.exit(1);
+}
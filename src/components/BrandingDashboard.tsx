@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { useYardSlice, useYardSelector, useSimulationTime, shallowEqual } from '@/hooks/use-yard';
+import { ContractCompliance, DEFAULT_BRANDING_PERIOD_DAYS, getContractCompliance } from '@/lib/branding';
+import { Megaphone, AlertTriangle, Plus, Trash2 } from 'lucide-react';
+
+interface BrandingDashboardProps {
+  onAddContract: (advertiser: string, requiredHours: number, periodDays: number, trainIds: string[]) => void;
+  onRemoveContract: (contractId: string) => void;
+  className?: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const getStatusVariant = (status: ContractCompliance['status']) => {
+  switch (status) {
+    case 'met': return 'default';
+    case 'on-track': return 'secondary';
+    default: return 'destructive';
+  }
+};
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Compliance moves with the clock, so only the summary and the contract cards follow it
+const ContractSummary: React.FC = () => {
+  const brandingContracts = useYardSelector(state => state.brandingContracts);
+  const now = useSimulationTime(MINUTE_MS);
+
+  const contracts = Object.values(brandingContracts).map(contract => ({
+    contract,
+    compliance: getContractCompliance(contract, now)
+  }));
+  const atRisk = contracts.filter(({ compliance }) => compliance.status === 'at-risk');
+
+  return (
+    <>
+      <div className="grid grid-cols-3 gap-4 text-center">
+        <div>
+          <div className="text-2xl font-bold">{contracts.length}</div>
+          <div className="text-sm text-muted-foreground">Contracts</div>
+        </div>
+        <div>
+          <div className="text-2xl font-bold text-success">
+            {contracts.filter(({ compliance }) => compliance.status !== 'at-risk').length}
+          </div>
+          <div className="text-sm text-muted-foreground">Compliant</div>
+        </div>
+        <div>
+          <div className="text-2xl font-bold text-destructive">{atRisk.length}</div>
+          <div className="text-sm text-muted-foreground">At Risk</div>
+        </div>
+      </div>
+
+      {atRisk.length > 0 && (
+        <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <AlertTriangle className="h-4 w-4 text-destructive" />
+            Behind on contracted exposure
+          </div>
+          <div className="text-xs text-muted-foreground mt-1">
+            {atRisk.map(({ contract, compliance }) =>
+              `${contract.advertiser} (${Math.round(compliance.remainingHours)}h to go)`
+            ).join(', ')}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+const ContractCard: React.FC<{
+  contractId: string;
+  onRemoveContract: (contractId: string) => void;
+}> = React.memo(({ contractId, onRemoveContract }) => {
+  const contract = useYardSelector(state => state.brandingContracts[contractId]);
+  const trains = useYardSelector(state => state.trains);
+  const now = useSimulationTime(MINUTE_MS);
+  if (!contract) return null;
+
+  const compliance = getContractCompliance(contract, now);
+
+  return (
+    <Card className={compliance.status === 'at-risk' ? 'border-destructive' : 'border-muted'}>
+      <CardContent className="p-4 space-y-2">
+        <div className="flex items-center justify-between">
+          <div className="font-medium">{contract.advertiser}</div>
+          <div className="flex items-center gap-2">
+            <Badge variant={getStatusVariant(compliance.status)} className="text-xs">
+              {compliance.status}
+            </Badge>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0"
+              onClick={() => onRemoveContract(contract.id)}
+              title="Remove contract"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+
+        <Progress value={Math.min(100, (compliance.accruedHours / contract.requiredHours) * 100)} className="h-2" />
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{Math.round(compliance.accruedHours)}h of {contract.requiredHours}h</span>
+          <span>{Math.round(compliance.expectedHours)}h expected by now</span>
+        </div>
+        <div className="text-xs text-muted-foreground">
+          Period ends {formatDate(compliance.periodEnd)} · {Math.round(compliance.capacityHours)}h still available
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {contract.trainIds.map(trainId => (
+            <Badge key={trainId} variant="outline" className="text-xs">
+              {trains[trainId]?.number || trainId} · {contract.exposureHours[trainId] || 0}h
+            </Badge>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+});
+
+const BrandingDashboard: React.FC<BrandingDashboardProps> = ({
+  onAddContract,
+  onRemoveContract,
+  className = ''
+}) => {
+  const yardState = useYardSlice('trains');
+  const contractIds = useYardSelector(state => Object.keys(state.brandingContracts), shallowEqual);
+  const [advertiser, setAdvertiser] = useState('');
+  const [requiredHours, setRequiredHours] = useState(120);
+  const [periodDays, setPeriodDays] = useState(DEFAULT_BRANDING_PERIOD_DAYS);
+  const [linkedTrains, setLinkedTrains] = useState<string[]>([]);
+
+  const fleet = Object.values(yardState.trains).filter(train => train.status !== 'departed');
+
+  const toggleTrain = (trainId: string) => {
+    setLinkedTrains(prev => prev.includes(trainId) ? prev.filter(id => id !== trainId) : [...prev, trainId]);
+  };
+
+  const handleAdd = () => {
+    if (!advertiser.trim() || requiredHours <= 0 || linkedTrains.length === 0) return;
+    onAddContract(advertiser.trim(), requiredHours, periodDays, linkedTrains);
+    setAdvertiser('');
+    setLinkedTrains([]);
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <Card className="bg-gradient-control shadow-control">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Megaphone className="h-5 w-5 text-primary" />
+            Branding Contracts
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ContractSummary />
+        </CardContent>
+      </Card>
+
+      {contractIds.map(contractId => (
+        <ContractCard key={contractId} contractId={contractId} onRemoveContract={onRemoveContract} />
+      ))}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">New Contract</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="advertiser">Advertiser</Label>
+            <Input id="advertiser" value={advertiser} onChange={(e) => setAdvertiser(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="requiredHours">Hours per period</Label>
+              <Input
+                id="requiredHours"
+                type="number"
+                value={requiredHours}
+                onChange={(e) => setRequiredHours(parseInt(e.target.value) || 0)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="periodDays">Period (days)</Label>
+              <Input
+                id="periodDays"
+                type="number"
+                value={periodDays}
+                onChange={(e) => setPeriodDays(parseInt(e.target.value) || DEFAULT_BRANDING_PERIOD_DAYS)}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>Wrapped trains</Label>
+            <div className="flex flex-wrap gap-1">
+              {fleet.map(train => (
+                <Badge
+                  key={train.id}
+                  variant={linkedTrains.includes(train.id) ? 'default' : 'outline'}
+                  className="cursor-pointer text-xs"
+                  onClick={() => toggleTrain(train.id)}
+                >
+                  {train.number}
+                </Badge>
+              ))}
+              {fleet.length === 0 && (
+                <span className="text-xs text-muted-foreground">No trains in the yard</span>
+              )}
+            </div>
+          </div>
+          <Button
+            size="sm"
+            className="w-full"
+            onClick={handleAdd}
+            disabled={!advertiser.trim() || requiredHours <= 0 || linkedTrains.length === 0}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Contract
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BrandingDashboard;
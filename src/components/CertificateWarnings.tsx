@@ -0,0 +1,37 @@
+import React from 'react';
+import { Train } from '@/types/yard';
+import { describeExpiry, getExpiredCertificates, getExpiringCertificates } from '@/lib/certificates';
+import { AlertTriangle, ShieldAlert } from 'lucide-react';
+
+interface CertificateWarningsProps {
+  train: Train;
+  now: number; // simulation time
+  className?: string;
+}
+
+// Expired certificates first, then the ones about to lapse; nothing when all are comfortably valid
+const CertificateWarnings: React.FC<CertificateWarningsProps> = ({ train, now, className = '' }) => {
+  const expired = getExpiredCertificates(train, now);
+  const expiring = getExpiringCertificates(train, now);
+
+  if (expired.length === 0 && expiring.length === 0) return null;
+
+  return (
+    <div className={`space-y-0.5 text-xs ${className}`}>
+      {expired.map(certificate => (
+        <div key={certificate.type} className="flex items-center gap-1 text-destructive">
+          <ShieldAlert className="h-3 w-3" />
+          {describeExpiry(certificate, now)}
+        </div>
+      ))}
+      {expiring.map(certificate => (
+        <div key={certificate.type} className="flex items-center gap-1 text-warning">
+          <AlertTriangle className="h-3 w-3" />
+          {describeExpiry(certificate, now)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CertificateWarnings;
@@ -0,0 +1,283 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CleaningType, CleaningJob, Train } from '@/types/yard';
+import { useYardSlice, useYardSelector, useSimulationTime, useTrain, shallowEqual } from '@/hooks/use-yard';
+import { CLEANING_LABELS, CLEANING_TYPES, describeOverdue, getOverdueCleaning } from '@/lib/cleaning';
+import { Sparkles, AlertTriangle, Plus, X } from 'lucide-react';
+
+interface CleaningDashboardProps {
+  onScheduleCleaning: (trainId: string, type: CleaningType, location: CleaningJob['location'], bayId?: string, time?: string) => void;
+  onCancelCleaning: (jobId: string) => void;
+  onSetCrews: (crews: number) => void;
+  className?: string;
+}
+
+const AT_SIDING = 'siding';
+const MINUTE_MS = 60 * 1000;
+
+const getJobVariant = (status: CleaningJob['status']) => {
+  switch (status) {
+    case 'in-progress': return 'default';
+    case 'scheduled': return 'secondary';
+    case 'completed': return 'outline';
+    default: return 'destructive';
+  }
+};
+
+const isOpen = (job: CleaningJob): boolean => job.status === 'scheduled' || job.status === 'in-progress';
+
+// Overdue cleans nobody has booked yet
+const getUnbookedOverdue = (train: Train, jobs: CleaningJob[], now: number): CleaningType[] =>
+  getOverdueCleaning(train, now).filter(overdueType =>
+    !jobs.some(job => isOpen(job) && job.trainId === train.id && job.type === overdueType)
+  );
+
+const OverdueCleaningRows: React.FC<{
+  trainId: string;
+  onScheduleCleaning: CleaningDashboardProps['onScheduleCleaning'];
+}> = ({ trainId, onScheduleCleaning }) => {
+  const train = useTrain(trainId);
+  const cleaningJobs = useYardSelector(state => state.cleaningJobs);
+  const now = useSimulationTime(MINUTE_MS);
+  if (!train) return null;
+
+  return (
+    <>
+      {getUnbookedOverdue(train, Object.values(cleaningJobs), now).map(overdueType => (
+        <div key={overdueType} className="flex items-center justify-between text-sm">
+          <div>
+            <span className="font-medium">{train.number}</span>
+            <span className="text-xs text-muted-foreground ml-2">{describeOverdue(train, overdueType, now)}</span>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7"
+            onClick={() => onScheduleCleaning(train.id, overdueType, 'siding')}
+          >
+            Book
+          </Button>
+        </div>
+      ))}
+    </>
+  );
+};
+
+// Only running jobs follow the clock
+const CleaningProgress: React.FC<{ job: CleaningJob }> = ({ job }) => {
+  const train = useTrain(job.trainId);
+  const now = useYardSelector(state => state.lastUpdate);
+  const progress = train?.status === 'cleaning' && job.startedAt !== undefined
+    ? Math.min(100, ((now - job.startedAt) / job.durationMs) * 100)
+    : 0;
+
+  return <Progress value={progress} className="h-2" />;
+};
+
+const CleaningDashboard: React.FC<CleaningDashboardProps> = ({
+  onScheduleCleaning,
+  onCancelCleaning,
+  onSetCrews,
+  className = ''
+}) => {
+  const yardState = useYardSlice('trains', 'inspectionBays', 'cleaningJobs', 'cleaningCrews');
+  const [trainId, setTrainId] = useState('');
+  const [type, setType] = useState<CleaningType>('interior');
+  const [location, setLocation] = useState(AT_SIDING);
+  const [startTime, setStartTime] = useState('');
+
+  const fleet = Object.values(yardState.trains).filter(train => train.status !== 'departed');
+  const jobs = Object.values(yardState.cleaningJobs);
+  const openJobs = jobs
+    .filter(isOpen)
+    .sort((a, b) => a.scheduledFor - b.scheduledFor);
+  const recentJobs = jobs
+    .filter(job => job.status === 'completed' || job.status === 'cancelled')
+    .sort((a, b) => (b.completedAt || b.scheduledFor) - (a.completedAt || a.scheduledFor))
+    .slice(0, 5);
+
+  // The list only changes as trains fall due or get booked, however often the clock moves
+  const overdueTrainIds = useYardSelector(state => Object.values(state.trains)
+    .filter(train => train.status !== 'departed' &&
+      getUnbookedOverdue(train, Object.values(state.cleaningJobs), state.lastUpdate).length > 0)
+    .map(train => train.id), shallowEqual);
+
+  const handleBook = () => {
+    if (!trainId) return;
+    onScheduleCleaning(
+      trainId,
+      type,
+      location === AT_SIDING ? 'siding' : 'bay',
+      location === AT_SIDING ? undefined : location,
+      startTime || undefined
+    );
+    setTrainId('');
+    setStartTime('');
+  };
+
+  const formatClock = (timestamp: number): string =>
+    new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  const describeLocation = (job: CleaningJob): string =>
+    job.bayId ? yardState.inspectionBays[job.bayId]?.name || job.bayId : job.location === 'bay' ? 'First free bay' : 'At siding';
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <Card className="bg-gradient-control shadow-control">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5 text-primary" />
+            Cleaning & Detailing
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <div className="text-2xl font-bold">
+                {openJobs.filter(job => job.status === 'in-progress').length}/{yardState.cleaningCrews}
+              </div>
+              <div className="text-sm text-muted-foreground">Crews Busy</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">{openJobs.filter(job => job.status === 'scheduled').length}</div>
+              <div className="text-sm text-muted-foreground">Booked</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-destructive">{overdueTrainIds.length}</div>
+              <div className="text-sm text-muted-foreground">Overdue</div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Label htmlFor="cleaningCrews" className="text-sm">Crews on shift</Label>
+            <Input
+              id="cleaningCrews"
+              type="number"
+              min={0}
+              className="w-20 h-8"
+              value={yardState.cleaningCrews}
+              onChange={(e) => onSetCrews(parseInt(e.target.value) || 0)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {overdueTrainIds.length > 0 && (
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-sm">
+              <AlertTriangle className="h-4 w-4 text-destructive" />
+              Overdue for Cleaning
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {overdueTrainIds.map(overdueTrainId => (
+              <OverdueCleaningRows key={overdueTrainId} trainId={overdueTrainId} onScheduleCleaning={onScheduleCleaning} />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">Cleaning Jobs</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {openJobs.length === 0 && (
+            <div className="text-sm text-muted-foreground">No cleaning booked</div>
+          )}
+          {[...openJobs, ...recentJobs].map(job => (
+            <div key={job.id} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{yardState.trains[job.trainId]?.number || job.trainId}</span>
+                  <span className="text-xs text-muted-foreground">{CLEANING_LABELS[job.type]}</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Badge variant={getJobVariant(job.status)} className="text-xs">
+                    {job.status}
+                  </Badge>
+                  {job.status === 'scheduled' && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 w-6 p-0"
+                      onClick={() => onCancelCleaning(job.id)}
+                      title="Cancel job"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {describeLocation(job)} · from {formatClock(job.scheduledFor)} · {Math.round(job.durationMs / 60000)} min
+              </div>
+              {job.status === 'in-progress' && <CleaningProgress job={job} />}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">Book Cleaning</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={trainId} onValueChange={setTrainId}>
+              <SelectTrigger className="h-8">
+                <SelectValue placeholder="Train" />
+              </SelectTrigger>
+              <SelectContent>
+                {fleet.map(train => (
+                  <SelectItem key={train.id} value={train.id}>{train.number}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={type} onValueChange={(value) => setType(value as CleaningType)}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CLEANING_TYPES.map(cleaningType => (
+                  <SelectItem key={cleaningType} value={cleaningType}>{CLEANING_LABELS[cleaningType]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={location} onValueChange={setLocation}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AT_SIDING}>At siding</SelectItem>
+                {Object.values(yardState.inspectionBays).map(bay => (
+                  <SelectItem key={bay.id} value={bay.id}>{bay.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="time"
+              className="h-8"
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+              title="Start time, now if left empty"
+            />
+          </div>
+          <Button size="sm" className="w-full" onClick={handleBook} disabled={!trainId}>
+            <Plus className="h-4 w-4 mr-1" />
+            Book Job
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CleaningDashboard;
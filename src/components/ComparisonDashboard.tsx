@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { YardScenario, ComparisonKpis, ComparisonResult, ComparisonVariant } from '@/types/yard';
+import { useYardSlice } from '@/hooks/use-yard';
+import { DEFAULT_COMPARISON_ARRIVALS } from '@/lib/comparison';
+import { DEFAULT_POLICY_ID } from '@/lib/scoring';
+import { DEFAULT_STRATEGY_ID } from '@/lib/strategies';
+import { GitCompare, Play } from 'lucide-react';
+
+interface ComparisonDashboardProps {
+  onRunComparison: (
+    variants: [ComparisonVariant, ComparisonVariant],
+    seed: number,
+    arrivals: number,
+    scenario: YardScenario
+  ) => Promise<ComparisonResult>;
+  className?: string;
+}
+
+interface VariantChoice {
+  strategyId: string;
+  policyId: string;
+}
+
+// Which way is better for each KPI; bay utilisation is shown but not judged
+const KPI_ROWS: { key: keyof ComparisonKpis; label: string; better?: 'lower' | 'higher'; format: (value: number) => string }[] = [
+  { key: 'shuntMoves', label: 'Shunt moves', better: 'lower', format: value => `${value}` },
+  { key: 'averageTimeToParkMs', label: 'Avg time to park', better: 'lower', format: value => `${(value / 60000).toFixed(1)} min` },
+  { key: 'parkedArrivals', label: 'Arrivals parked', better: 'higher', format: value => `${value}` },
+  { key: 'blockedDepartures', label: 'Blocked departures', better: 'lower', format: value => `${value}` },
+  { key: 'bayUtilisation', label: 'Bay utilisation', format: value => `${value.toFixed(1)}%` },
+  { key: 'lateDispatches', label: 'Late dispatches', better: 'lower', format: value => `${value}` }
+];
+
+const ComparisonDashboard: React.FC<ComparisonDashboardProps> = ({
+  onRunComparison,
+  className = ''
+}) => {
+  const yardState = useYardSlice('recommendationStrategies', 'activeStrategyId', 'scoringPolicies', 'activeScoringPolicyId');
+  const [choices, setChoices] = useState<[VariantChoice, VariantChoice]>([
+    { strategyId: DEFAULT_STRATEGY_ID, policyId: DEFAULT_POLICY_ID },
+    { strategyId: yardState.activeStrategyId, policyId: yardState.activeScoringPolicyId }
+  ]);
+  const [seed, setSeed] = useState(1);
+  const [arrivals, setArrivals] = useState(DEFAULT_COMPARISON_ARRIVALS);
+  const [scenario, setScenario] = useState<YardScenario>('empty');
+  const [result, setResult] = useState<ComparisonResult | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const strategies = Object.values(yardState.recommendationStrategies);
+  const policies = Object.values(yardState.scoringPolicies);
+
+  const setChoice = (index: 0 | 1, change: Partial<VariantChoice>) => {
+    setChoices(prev => {
+      const next: [VariantChoice, VariantChoice] = [prev[0], prev[1]];
+      next[index] = { ...prev[index], ...change };
+      return next;
+    });
+  };
+
+  const toVariant = (choice: VariantChoice, index: number): ComparisonVariant => {
+    const strategy = yardState.recommendationStrategies[choice.strategyId];
+    const policy = yardState.scoringPolicies[choice.policyId] || yardState.scoringPolicies[DEFAULT_POLICY_ID];
+    return {
+      label: `${index === 0 ? 'A' : 'B'}: ${strategy?.name || choice.strategyId} / ${policy.name}`,
+      strategyId: choice.strategyId,
+      policy
+    };
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      setResult(await onRunComparison([toVariant(choices[0], 0), toVariant(choices[1], 1)], seed, arrivals, scenario));
+    } catch (err) {
+      console.error('Comparison failed:', err);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const getCellClass = (row: typeof KPI_ROWS[number], index: 0 | 1): string => {
+    if (!result || !row.better) return '';
+    const mine = result.runs[index].kpis[row.key];
+    const theirs = result.runs[1 - index].kpis[row.key];
+    if (mine === theirs) return '';
+    const wins = row.better === 'lower' ? mine < theirs : mine > theirs;
+    return wins ? 'font-bold text-success' : 'text-muted-foreground';
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <Card className="bg-gradient-control shadow-control">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5 text-primary" />
+            Strategy Comparison
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="text-xs text-muted-foreground">
+            Both runs start this evening from the same yard, arrivals and seed, and run through the morning departures.
+          </div>
+
+          {([0, 1] as const).map(index => (
+            <div key={index} className="space-y-1">
+              <Label>Run {index === 0 ? 'A' : 'B'}</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Select value={choices[index].strategyId} onValueChange={(strategyId) => setChoice(index, { strategyId })}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {strategies.map(strategy => (
+                      <SelectItem key={strategy.id} value={strategy.id}>{strategy.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={choices[index].policyId} onValueChange={(policyId) => setChoice(index, { policyId })}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {policies.map(policy => (
+                      <SelectItem key={policy.id} value={policy.id}>{policy.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          ))}
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="comparisonSeed">Seed</Label>
+              <Input
+                id="comparisonSeed"
+                type="number"
+                className="h-8"
+                value={seed}
+                onChange={(e) => setSeed(parseInt(e.target.value) || 0)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="comparisonArrivals">Arrivals</Label>
+              <Input
+                id="comparisonArrivals"
+                type="number"
+                min={0}
+                className="h-8"
+                value={arrivals}
+                onChange={(e) => setArrivals(Math.max(0, parseInt(e.target.value) || 0))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Start</Label>
+              <Select value={scenario} onValueChange={(value) => setScenario(value as YardScenario)}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="empty">Empty</SelectItem>
+                  <SelectItem value="preset">Preset</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Button size="sm" className="w-full" onClick={handleRun} disabled={running}>
+            <Play className="h-4 w-4 mr-1" />
+            {running ? 'Running...' : 'Run Comparison'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">Results · seed {result.config.seed}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="grid grid-cols-3 gap-2 text-xs text-muted-foreground">
+              <span>KPI</span>
+              {result.runs.map(run => (
+                <span key={run.variant.label} className="text-right truncate" title={run.variant.label}>
+                  {run.variant.label}
+                </span>
+              ))}
+            </div>
+            {KPI_ROWS.map(row => (
+              <div key={row.key} className="grid grid-cols-3 gap-2 text-sm">
+                <span>{row.label}</span>
+                {([0, 1] as const).map(index => (
+                  <span key={index} className={`text-right font-mono ${getCellClass(row, index)}`}>
+                    {row.key === 'parkedArrivals'
+                      ? `${result.runs[index].kpis.parkedArrivals}/${result.config.arrivals}`
+                      : row.format(result.runs[index].kpis[row.key])}
+                  </span>
+                ))}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonDashboard;
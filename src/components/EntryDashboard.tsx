@@ -4,20 +4,20 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
-import { Train, YardState } from '@/types/yard';
+import { Train } from '@/types/yard';
+import { useYardSlice } from '@/hooks/use-yard';
 import { Plus, Train as TrainIcon, Clock, AlertTriangle } from 'lucide-react';
 
 interface EntryDashboardProps {
-  yardState: YardState;
   onCreateTrain: (trainData: Partial<Train>) => void;
   className?: string;
 }
 
 const EntryDashboard: React.FC<EntryDashboardProps> = ({
-  yardState,
   onCreateTrain,
   className = ''
 }) => {
+  const yardState = useYardSlice('trains');
   const [newTrain, setNewTrain] = useState({
     number: '',
     fitness: 85,
@@ -0,0 +1,150 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { InductionDecision } from '@/types/yard';
+import { useYardSlice } from '@/hooks/use-yard';
+import { ClipboardList, CheckCircle, RefreshCw } from 'lucide-react';
+import MileageChart from './MileageChart';
+
+interface InductionDashboardProps {
+  onPlanInduction: () => void;
+  onAcceptInduction: (planId: string) => void;
+  className?: string;
+}
+
+const DECISION_LABELS: Record<InductionDecision['decision'], string> = {
+  service: 'Revenue Service',
+  standby: 'Standby',
+  hold: 'Held for Maintenance'
+};
+
+const getDecisionVariant = (decision: InductionDecision['decision']) => {
+  switch (decision) {
+    case 'service': return 'default';
+    case 'standby': return 'secondary';
+    default: return 'destructive';
+  }
+};
+
+const InductionDashboard: React.FC<InductionDashboardProps> = ({
+  onPlanInduction,
+  onAcceptInduction,
+  className = ''
+}) => {
+  const yardState = useYardSlice('trains', 'departures', 'inductionPlan');
+  const plan = yardState.inductionPlan;
+
+  const formatClock = (timestamp: number): string =>
+    new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  const DecisionGroup: React.FC<{ decision: InductionDecision['decision'] }> = ({ decision }) => {
+    const decisions = plan?.decisions.filter(d => d.decision === decision) || [];
+    if (decisions.length === 0) return null;
+
+    return (
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-muted-foreground">
+          {DECISION_LABELS[decision]} ({decisions.length})
+        </div>
+        {decisions.map(d => {
+          const train = yardState.trains[d.trainId];
+          const departure = d.departureId ? yardState.departures[d.departureId] : undefined;
+
+          return (
+            <Card key={d.trainId} className="border-l-4 border-l-muted">
+              <CardContent className="p-3">
+                <div className="flex items-center justify-between mb-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{train?.number || d.trainId}</span>
+                    <Badge variant={getDecisionVariant(d.decision)} className="text-xs">
+                      {d.decision}
+                    </Badge>
+                    {departure && (
+                      <span className="text-xs text-muted-foreground">
+                        {departure.serviceName} · {formatClock(departure.departureTime)}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    #{d.rank} · score {d.score}
+                  </div>
+                </div>
+                <ul className="text-xs text-muted-foreground space-y-0.5">
+                  {d.reasons.map((reason, idx) => (
+                    <li key={idx}>• {reason}</li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <Card className="bg-gradient-control shadow-control">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <ClipboardList className="h-5 w-5 text-primary" />
+              Nightly Induction Plan
+            </span>
+            <div className="flex items-center gap-2">
+              <Button size="sm" variant="outline" onClick={onPlanInduction}>
+                <RefreshCw className="h-4 w-4 mr-1" />
+                {plan ? 'Re-plan' : 'Plan Induction'}
+              </Button>
+              {plan && (
+                <Button
+                  size="sm"
+                  onClick={() => onAcceptInduction(plan.id)}
+                  disabled={plan.status !== 'proposed'}
+                >
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  {plan.status === 'accepted' ? 'Accepted' : 'Accept'}
+                </Button>
+              )}
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {plan ? (
+            <div className="grid grid-cols-3 gap-4 text-center">
+              {(['service', 'standby', 'hold'] as const).map(decision => (
+                <div key={decision}>
+                  <div className="text-2xl font-bold">
+                    {plan.decisions.filter(d => d.decision === decision).length}
+                  </div>
+                  <div className="text-sm text-muted-foreground">{DECISION_LABELS[decision]}</div>
+                </div>
+              ))}
+              <div className="col-span-3 text-xs text-muted-foreground">
+                Fleet mileage balance {plan.mileageBalance.current} → {plan.mileageBalance.projected} after this service day
+              </div>
+            </div>
+          ) : (
+            <div className="text-sm text-muted-foreground">
+              Rank the fleet on fitness, mileage, open failures, job cards and siding position to
+              decide tomorrow's service, standby and maintenance trains.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {plan && (
+        <div className="space-y-4">
+          <DecisionGroup decision="service" />
+          <DecisionGroup decision="standby" />
+          <DecisionGroup decision="hold" />
+        </div>
+      )}
+
+      <MileageChart />
+    </div>
+  );
+};
+
+export default InductionDashboard;
@@ -0,0 +1,104 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartConfig } from '@/components/ui/chart';
+import { useYardSlice } from '@/hooks/use-yard';
+import { getFleetMileage, getRelativeMileage, shouldRest } from '@/lib/mileage';
+import { Gauge } from 'lucide-react';
+
+interface MileageChartProps {
+  className?: string;
+}
+
+const chartConfig: ChartConfig = {
+  mileage: { label: 'Mileage (km)', color: 'hsl(var(--train))' }
+};
+
+const getBalanceVariant = (score: number) => {
+  if (score >= 85) return 'default';
+  if (score >= 70) return 'secondary';
+  return 'destructive';
+};
+
+// One bar per unit, lowest first, against the fleet average
+const MileageChart: React.FC<MileageChartProps> = ({ className = '' }) => {
+  const yardState = useYardSlice('trains');
+  const trains = Object.values(yardState.trains);
+  const fleet = getFleetMileage(trains);
+
+  const data = [...trains]
+    .sort((a, b) => a.mileage - b.mileage)
+    .map(train => ({
+      train: train.number,
+      mileage: train.mileage,
+      fill: shouldRest(train, fleet.average)
+        ? 'hsl(var(--warning))'
+        : getRelativeMileage(train, fleet.average) <= -0.1
+          ? 'hsl(var(--success))'
+          : 'hsl(var(--train))'
+    }));
+
+  return (
+    <Card className={`bg-gradient-control shadow-control ${className}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Gauge className="h-5 w-5 text-primary" />
+            Fleet Mileage
+          </span>
+          <Badge variant={getBalanceVariant(fleet.balanceScore)}>
+            Balance {fleet.balanceScore}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {data.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No trains in the fleet yet</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4 text-center mb-4">
+              <div>
+                <div className="text-lg font-bold">{Math.round(fleet.min).toLocaleString()}</div>
+                <div className="text-xs text-muted-foreground">Lowest km</div>
+              </div>
+              <div>
+                <div className="text-lg font-bold">{Math.round(fleet.average).toLocaleString()}</div>
+                <div className="text-xs text-muted-foreground">Average km</div>
+              </div>
+              <div>
+                <div className="text-lg font-bold">{Math.round(fleet.max).toLocaleString()}</div>
+                <div className="text-xs text-muted-foreground">Highest km</div>
+              </div>
+            </div>
+            <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+              <BarChart data={data}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="train" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(value: number) => `${Math.round(value / 1000)}k`} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ReferenceLine y={fleet.average} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+                <Bar dataKey="mileage" radius={4}>
+                  {data.map(entry => (
+                    <Cell key={entry.train} fill={entry.fill} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ChartContainer>
+            <div className="flex gap-4 text-xs text-muted-foreground mt-2">
+              <span className="flex items-center gap-1">
+                <span className="h-2 w-2 rounded-sm bg-success" /> Should run
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="h-2 w-2 rounded-sm bg-warning" /> Should rest
+              </span>
+              <span>Dashed line: fleet average</span>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MileageChart;
@@ -0,0 +1,137 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Plan, Train } from '@/types/yard';
+import { AlertTriangle, Clock, Lock, Play, Route as RouteIcon } from 'lucide-react';
+
+interface PlanPreviewDialogProps {
+  plan: Plan | null;
+  train?: Train;
+  targetLabel?: string;
+  onExecute: (planId: string) => void;
+  onCancel: (planId: string) => void;
+}
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const getStepVariant = (type: string) => {
+  switch (type) {
+    case 'move': return 'default';
+    case 'switch': return 'secondary';
+    default: return 'outline';
+  }
+};
+
+const PlanPreviewDialog: React.FC<PlanPreviewDialogProps> = ({
+  plan,
+  train,
+  targetLabel,
+  onExecute,
+  onCancel
+}) => {
+  return (
+    <Dialog open={!!plan} onOpenChange={(open) => !open && plan && onCancel(plan.id)}>
+      {plan && (
+        <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <RouteIcon className="h-5 w-5 text-primary" />
+              Plan Preview: {train?.number || plan.trainId} → {targetLabel || plan.targetId}
+            </DialogTitle>
+          </DialogHeader>
+
+          {/* Summary */}
+          <div className="grid grid-cols-4 gap-4 text-center">
+            <div>
+              <div className="text-2xl font-bold text-primary flex items-center justify-center gap-1">
+                <Clock className="h-4 w-4" />
+                {formatDuration(plan.estimatedDuration)}
+              </div>
+              <div className="text-xs text-muted-foreground">Total Duration</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">{plan.steps.length}</div>
+              <div className="text-xs text-muted-foreground">Steps</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">{plan.requiredLocks.length}</div>
+              <div className="text-xs text-muted-foreground">Required Locks</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">{plan.cost}</div>
+              <div className="text-xs text-muted-foreground">Cost</div>
+            </div>
+          </div>
+
+          {/* Warnings */}
+          {plan.warnings.length > 0 && (
+            <div className="p-3 bg-warning/10 border border-warning/20 rounded-lg">
+              <ul className="text-sm space-y-1">
+                {plan.warnings.map((warning, idx) => (
+                  <li key={idx} className="flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 text-warning" />
+                    {warning}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Required locks */}
+          <div>
+            <div className="text-sm font-medium text-muted-foreground mb-1 flex items-center gap-1">
+              <Lock className="h-3 w-3" />
+              Segments to lock
+            </div>
+            <div className="flex flex-wrap gap-1 max-h-16 overflow-y-auto">
+              {plan.requiredLocks.map(segment => (
+                <Badge key={segment} variant="outline" className="text-xs font-mono">
+                  {segment}
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          {/* Steps */}
+          <ScrollArea className="h-64 border rounded-lg">
+            <ol className="p-2 space-y-1">
+              {plan.steps.map((step, idx) => (
+                <li key={step.id} className="flex items-center justify-between gap-2 p-2 text-sm bg-card/50 rounded">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-xs text-muted-foreground w-6 text-right">{idx + 1}</span>
+                    <Badge variant={getStepVariant(step.type)} className="text-xs w-16 justify-center">
+                      {step.type}
+                    </Badge>
+                    <span className="truncate">{step.description}</span>
+                  </div>
+                  <span className="text-xs text-muted-foreground font-mono">
+                    {formatDuration(step.durationMs)}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </ScrollArea>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onCancel(plan.id)}>
+              Cancel
+            </Button>
+            <Button onClick={() => onExecute(plan.id)} disabled={plan.status !== 'preview'}>
+              <Play className="h-4 w-4 mr-1" />
+              Execute
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+};
+
+export default PlanPreviewDialog;
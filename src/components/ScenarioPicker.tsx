@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { YardDefinition, YardScenario, ScenarioDefinition, ScenarioLibrary } from '@/types/yard';
+import { fetchScenarioLibrary, readScenarioFile, describeScenario } from '@/lib/scenarios';
+import { Play, FileUp, AlertTriangle } from 'lucide-react';
+
+interface ScenarioPickerProps {
+  yardDefinition: YardDefinition;
+  onStart: (scenario: YardScenario | ScenarioDefinition) => void;
+}
+
+const BUILT_IN: { id: YardScenario; name: string; description: string }[] = [
+  { id: 'empty', name: 'Empty yard', description: 'No trains in the yard and the default timetable' },
+  { id: 'preset', name: 'Preset occupancy', description: 'A few trains already stabled in the sidings and workshop' }
+];
+
+const ScenarioPicker: React.FC<ScenarioPickerProps> = ({ yardDefinition, onStart }) => {
+  const [library, setLibrary] = useState<ScenarioLibrary>({ scenarios: [], failures: [] });
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchScenarioLibrary(yardDefinition)
+      .then(setLibrary)
+      .catch(err => setLibraryError(err.message));
+  }, [yardDefinition]);
+
+  // Start straight away with a valid file; otherwise say what is wrong with it
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onStart(await readScenarioFile(file, yardDefinition));
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-2xl bg-gradient-control shadow-control">
+        <CardHeader>
+          <CardTitle>Choose a starting scenario</CardTitle>
+          <div className="text-sm text-muted-foreground">
+            Kochi Metro Muttom Yard - pick how the yard looks when the simulation starts
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            {BUILT_IN.map(choice => (
+              <div key={choice.id} className="flex items-center justify-between gap-4 rounded border p-3">
+                <div>
+                  <div className="font-medium">{choice.name}</div>
+                  <div className="text-xs text-muted-foreground">{choice.description}</div>
+                </div>
+                <Button size="sm" onClick={() => onStart(choice.id)}>
+                  <Play className="h-4 w-4 mr-1" />
+                  Start
+                </Button>
+              </div>
+            ))}
+
+            {library.scenarios.map(scenario => (
+              <div key={scenario.id} className="flex items-center justify-between gap-4 rounded border p-3">
+                <div>
+                  <div className="flex items-center gap-2 font-medium">
+                    {scenario.name}
+                    {scenario.seed !== undefined && (
+                      <Badge variant="outline" className="text-xs font-mono">seed {scenario.seed}</Badge>
+                    )}
+                  </div>
+                  {scenario.description && (
+                    <div className="text-xs text-muted-foreground">{scenario.description}</div>
+                  )}
+                  <div className="text-xs text-muted-foreground">{describeScenario(scenario)}</div>
+                </div>
+                <Button size="sm" onClick={() => onStart(scenario)}>
+                  <Play className="h-4 w-4 mr-1" />
+                  Start
+                </Button>
+              </div>
+            ))}
+
+            {libraryError && (
+              <div className="text-xs text-muted-foreground">Scenario library unavailable: {libraryError}</div>
+            )}
+            {library.failures.map(failure => (
+              <div key={failure.file} className="flex gap-2 text-xs text-muted-foreground">
+                <AlertTriangle className="h-3 w-3 shrink-0 mt-0.5" />
+                <span className="break-words">Skipped {failure.file}: {failure.message}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="scenarioFile" className="flex items-center gap-2">
+              <FileUp className="h-4 w-4" />
+              Load a scenario file
+            </Label>
+            <Input id="scenarioFile" type="file" accept=".json,application/json" onChange={handleUpload} />
+          </div>
+
+          {uploadError && (
+            <div className="flex gap-2 rounded border border-destructive p-3 text-sm text-destructive">
+              <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+              <span className="break-words">{uploadError}</span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ScenarioPicker;
@@ -0,0 +1,23 @@
+import React from 'react';
+import { ScoreTerm } from '@/types/yard';
+
+interface ScoreBreakdownProps {
+  terms: ScoreTerm[];
+  className?: string;
+}
+
+// Each scoring term with the points it added or took away
+const ScoreBreakdown: React.FC<ScoreBreakdownProps> = ({ terms, className = '' }) => (
+  <ul className={`text-xs space-y-0.5 ${className}`}>
+    {terms.map((term, idx) => (
+      <li key={idx} className="flex items-center justify-between gap-2">
+        <span className="text-muted-foreground">{term.label}</span>
+        <span className={`font-mono ${idx === 0 ? '' : term.points >= 0 ? 'text-success' : 'text-destructive'}`}>
+          {term.points >= 0 ? '+' : ''}{term.points}
+        </span>
+      </li>
+    ))}
+  </ul>
+);
+
+export default ScoreBreakdown;
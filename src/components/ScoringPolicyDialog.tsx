@@ -0,0 +1,182 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScoringPolicy } from '@/types/yard';
+import { useYardSlice } from '@/hooks/use-yard';
+import { DEFAULT_POLICY_ID, SIDING_WEIGHT_LABELS, WORKSHOP_WEIGHT_LABELS } from '@/lib/scoring';
+import { Settings, Save, Trash2, CheckCircle } from 'lucide-react';
+
+interface ScoringPolicyDialogProps {
+  onSavePolicy: (policy: ScoringPolicy) => void;
+  onSelectPolicy: (policyId: string) => void;
+  onDeletePolicy: (policyId: string) => void;
+  onSelectStrategy: (strategyId: string) => void;
+}
+
+const ScoringPolicyDialog: React.FC<ScoringPolicyDialogProps> = ({
+  onSavePolicy,
+  onSelectPolicy,
+  onDeletePolicy,
+  onSelectStrategy
+}) => {
+  const yardState = useYardSlice('scoringPolicies', 'activeScoringPolicyId', 'recommendationStrategies', 'activeStrategyId');
+  const policies = yardState.scoringPolicies;
+  const [editingId, setEditingId] = useState(yardState.activeScoringPolicyId);
+  const [draft, setDraft] = useState<ScoringPolicy>(policies[yardState.activeScoringPolicyId]);
+  const idsBeforeCopy = useRef<string[] | null>(null);
+
+  // Load the policy picked for editing; a deleted one falls back to the active policy
+  useEffect(() => {
+    const policy = policies[editingId] || policies[yardState.activeScoringPolicyId];
+    if (policy) setDraft(policy);
+  }, [editingId, policies, yardState.activeScoringPolicyId]);
+
+  // Carry on editing the copy once it exists
+  useEffect(() => {
+    const previous = idsBeforeCopy.current;
+    if (!previous) return;
+
+    const created = Object.keys(policies).find(id => !previous.includes(id));
+    if (created) {
+      idsBeforeCopy.current = null;
+      setEditingId(created);
+    }
+  }, [policies]);
+
+  const isDefault = draft.id === DEFAULT_POLICY_ID;
+  const isActive = draft.id === yardState.activeScoringPolicyId;
+  const activeStrategy = yardState.recommendationStrategies[yardState.activeStrategyId];
+
+  const setWeight = (group: 'siding' | 'workshop', field: string, value: number) => {
+    setDraft(prev => ({ ...prev, [group]: { ...prev[group], [field]: value } }));
+  };
+
+  const saveAsNew = () => {
+    idsBeforeCopy.current = Object.keys(policies);
+    // Keep a new name if one was typed, otherwise mark it as a copy
+    const renamed = draft.name.trim() && draft.name !== policies[draft.id]?.name;
+    onSavePolicy({ ...draft, id: '', name: renamed ? draft.name.trim() : `${draft.name} copy` });
+  };
+
+  // Plain render helper rather than a nested component, so inputs keep focus while typing
+  const renderWeightField = (group: 'siding' | 'workshop', field: string, label: string) => (
+    <div key={field} className="flex items-center justify-between gap-2">
+      <Label htmlFor={`${group}-${field}`} className="text-xs font-normal">{label}</Label>
+      <Input
+        id={`${group}-${field}`}
+        type="number"
+        className="w-20 h-7"
+        value={(draft[group] as Record<string, number>)[field]}
+        disabled={isDefault}
+        onChange={(e) => setWeight(group, field, parseFloat(e.target.value) || 0)}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Recommendation strategy and scoring">
+          <Settings className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Settings className="h-5 w-5 text-primary" />
+            Recommendation Scoring
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Strategy</Label>
+            <Select value={yardState.activeStrategyId} onValueChange={onSelectStrategy}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(yardState.recommendationStrategies).map(strategy => (
+                  <SelectItem key={strategy.id} value={strategy.id}>{strategy.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {activeStrategy && (
+              <div className="text-xs text-muted-foreground">{activeStrategy.description}</div>
+            )}
+          </div>
+
+          <div className="text-sm font-medium">Scoring policy</div>
+          <div className="flex items-center gap-2">
+            <Select value={editingId} onValueChange={setEditingId}>
+              <SelectTrigger className="flex-1 h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(policies).map(policy => (
+                  <SelectItem key={policy.id} value={policy.id}>{policy.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isActive ? (
+              <Badge className="h-9">In use</Badge>
+            ) : (
+              <Button size="sm" variant="outline" onClick={() => onSelectPolicy(draft.id)}>
+                <CheckCircle className="h-4 w-4 mr-1" />
+                Use
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="policyName">Name</Label>
+            <Input
+              id="policyName"
+              value={draft.name}
+              onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+            />
+            {isDefault && (
+              <div className="text-xs text-muted-foreground">
+                The default policy is read-only - save a copy to tune it.
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Siding recommendations</div>
+            {Object.entries(SIDING_WEIGHT_LABELS).map(([field, label]) => (
+              renderWeightField('siding', field, label)
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Workshop recommendations</div>
+            {Object.entries(WORKSHOP_WEIGHT_LABELS).map(([field, label]) => (
+              renderWeightField('workshop', field, label)
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" size="sm" onClick={() => onDeletePolicy(draft.id)} disabled={isDefault}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            Delete
+          </Button>
+          <Button variant="outline" size="sm" onClick={saveAsNew}>
+            Save as New
+          </Button>
+          <Button size="sm" onClick={() => onSavePolicy(draft)} disabled={isDefault || !draft.name.trim()}>
+            <Save className="h-4 w-4 mr-1" />
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScoringPolicyDialog;
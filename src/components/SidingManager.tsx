@@ -3,23 +3,220 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { YardState } from '@/types/yard';
-import { Train as TrainIcon, Clock, AlertTriangle, Move, Trash2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DepartureSlot, Train } from '@/types/yard';
+import { useYardSlice, useYardSelector, useSimulationTime, useTrain, shallowEqual } from '@/hooks/use-yard';
+import { Train as TrainIcon, Clock, AlertTriangle, Move, Trash2, Plus, ShieldAlert, Sparkles } from 'lucide-react';
+import { getBrandingAdjustment, getTrainContract } from '@/lib/branding';
+import { describeOverdue, getOverdueCleaning } from '@/lib/cleaning';
+import { describeTopology } from '@/lib/topology';
+import { getFleetMileage, getMileageAdjustment } from '@/lib/mileage';
+import { describeExpiry, getExpiredCertificates, getExpiringCertificates } from '@/lib/certificates';
+import CertificateWarnings from './CertificateWarnings';
 
 interface SidingManagerProps {
-  yardState: YardState;
   onRemoveTrain: (trainId: string) => void;
   onMoveTrain: (trainId: string, targetSlotId: string) => void;
+  onAssignDeparture: (departureId: string, trainId?: string) => void;
+  onAddDeparture: (time: string) => void;
+  onRemoveDeparture: (departureId: string) => void;
   className?: string;
 }
 
+const UNASSIGNED = 'none';
+const MINUTE_MS = 60 * 1000;
+
+const getDepartureVariant = (status: DepartureSlot['status']) => {
+  switch (status) {
+    case 'departed': return 'default';
+    case 'dispatched': return 'secondary';
+    case 'missed': return 'destructive';
+    default: return 'outline';
+  }
+};
+
+const formatDuration = (elapsed: number): string => {
+  const hours = Math.floor(elapsed / (1000 * 60 * 60));
+  const minutes = Math.floor(elapsed / (1000 * 60)) % 60;
+  return `${hours}h ${minutes}m`;
+};
+
+// Each slot follows only its own train, and the clock to the minute
+const SidingSlotCard: React.FC<{ 
+  trainId?: string;
+  isBlocking?: boolean;
+  onMoveTrain: (trainId: string, targetSlotId: string) => void;
+  onRemoveTrain: (trainId: string) => void;
+}> = React.memo(({ trainId, isBlocking = false, onMoveTrain, onRemoveTrain }) => {
+  const train = useTrain(trainId);
+  const now = useSimulationTime(MINUTE_MS);
+
+  if (!train) {
+    return (
+      <Card className="border-dashed border-muted h-20 flex items-center justify-center">
+        <span className="text-muted-foreground text-sm">Empty</span>
+      </Card>
+    );
+  }
+
+  const expired = getExpiredCertificates(train, now);
+  const expiring = getExpiringCertificates(train, now);
+  const overdueCleaning = getOverdueCleaning(train, now);
+
+  return (
+    <Card className={`h-20 ${isBlocking ? 'border-warning bg-warning/5' : 'border-primary/20'}`}>
+      <CardContent className="p-2">
+        <div className="flex items-center justify-between mb-1">
+          <div className="font-medium text-sm">{train.number}</div>
+          <div className="flex gap-1">
+            {overdueCleaning.length > 0 && (
+              <span
+                title={overdueCleaning.map(type => describeOverdue(train, type, now)).join('\n')}
+                className="text-warning"
+              >
+                <Sparkles className="h-3 w-3" />
+              </span>
+            )}
+            {(expired.length > 0 || expiring.length > 0) && (
+              <span
+                title={[...expired, ...expiring].map(c => describeExpiry(c, now)).join('\n')}
+                className={expired.length > 0 ? 'text-destructive' : 'text-warning'}
+              >
+                <ShieldAlert className="h-3 w-3" />
+              </span>
+            )}
+            {train.priority && (
+              <Badge variant="outline" className="text-xs">
+                <AlertTriangle className="h-2 w-2 mr-1" />
+                Priority
+              </Badge>
+            )}
+            {train.departSoon && (
+              <Badge variant="secondary" className="text-xs">
+                <Clock className="h-2 w-2 mr-1" />
+                Depart Soon
+              </Badge>
+            )}
+          </div>
+        </div>
+        
+        <div className="text-xs text-muted-foreground mb-2">
+          Parked: {formatDuration(now - train.lastUpdated)}
+        </div>
+        
+        <div className="flex gap-1">
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-xs px-2 py-1 h-6"
+            onClick={() => onMoveTrain(train.id, 'preview')}
+          >
+            <Move className="h-3 w-3" />
+          </Button>
+          <Button
+            size="sm"
+            variant="destructive"
+            className="text-xs px-2 py-1 h-6"
+            onClick={() => onRemoveTrain(train.id)}
+            title="Depart via exit"
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+        
+        {isBlocking && (
+          <div className="mt-1 text-xs text-warning flex items-center gap-1">
+            <AlertTriangle className="h-3 w-3" />
+            Blocking departure
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+const hasCertificateAlert = (train: Train, now: number): boolean =>
+  getExpiredCertificates(train, now).length > 0 || getExpiringCertificates(train, now).length > 0;
+
+const CertificateAlert: React.FC<{ trainId: string }> = ({ trainId }) => {
+  const train = useTrain(trainId);
+  const now = useSimulationTime(MINUTE_MS);
+  if (!train) return null;
+
+  return (
+    <div className="flex gap-2 text-xs">
+      <span className="font-medium w-10">{train.number}</span>
+      <CertificateWarnings train={train} now={now} />
+    </div>
+  );
+};
+
+// Trains that most need to run first: low mileage, under-exposed wraps
+const DepartureTrainSelect: React.FC<{
+  departure: DepartureSlot;
+  bookedTrainIds: Set<string>;
+  onAssignDeparture: (departureId: string, trainId?: string) => void;
+}> = ({ departure, bookedTrainIds, onAssignDeparture }) => {
+  const { trains, brandingContracts } = useYardSlice('trains', 'brandingContracts');
+  const now = useSimulationTime(MINUTE_MS);
+
+  // Same mileage and exposure steering the induction planner applies
+  const contracts = Object.values(brandingContracts);
+  const fleetAverage = getFleetMileage(Object.values(trains)).average;
+  const getRunPriority = (train: Train): number =>
+    getMileageAdjustment(train, fleetAverage) + getBrandingAdjustment(train, contracts, now);
+
+  return (
+    <Select
+      value={departure.trainId || UNASSIGNED}
+      onValueChange={(value) => onAssignDeparture(departure.id, value === UNASSIGNED ? undefined : value)}
+      disabled={departure.status !== 'planned'}
+    >
+      <SelectTrigger className="w-40 h-8">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNASSIGNED}>No train</SelectItem>
+        {Object.values(trains)
+          .filter(t => t.id === departure.trainId || (t.status !== 'departed' && !bookedTrainIds.has(t.id)))
+          .sort((a, b) => getRunPriority(b) - getRunPriority(a))
+          .map(t => (
+            <SelectItem key={t.id} value={t.id}>
+              {t.number} · {t.mileage.toLocaleString()} km
+              {getTrainContract(t, contracts) && ` · ${getTrainContract(t, contracts)?.advertiser}`}
+            </SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
 const SidingManager: React.FC<SidingManagerProps> = ({
-  yardState,
   onRemoveTrain,
   onMoveTrain,
+  onAssignDeparture,
+  onAddDeparture,
+  onRemoveDeparture,
   className = ''
 }) => {
+  const yardState = useYardSlice('trains', 'sidingSlots', 'departures');
   const [selectedSiding, setSelectedSiding] = useState<number | null>(null);
+  const [newDepartureTime, setNewDepartureTime] = useState('06:45');
+
+  const departures = Object.values(yardState.departures)
+    .sort((a, b) => a.departureTime - b.departureTime);
+
+  // Trains already booked on another live service are not offered again
+  const bookedTrainIds = new Set(
+    departures
+      .filter(d => d.trainId && (d.status === 'planned' || d.status === 'dispatched'))
+      .map(d => d.trainId)
+  );
+
+  const formatClock = (timestamp: number): string =>
+    new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 
   // Group siding slots by siding number
   const sidingGroups = Object.values(yardState.sidingSlots).reduce((groups, slot) => {
@@ -31,17 +228,6 @@ const SidingManager: React.FC<SidingManagerProps> = ({
     return groups;
   }, {} as Record<number, { a: any; b: any }>);
 
-  const getTrainAtSlot = (slotId: string) => {
-    const slot = yardState.sidingSlots[slotId];
-    return slot?.occupiedBy ? yardState.trains[slot.occupiedBy] : null;
-  };
-
-  const formatDuration = (timestamp: number): string => {
-    const hours = Math.floor((Date.now() - timestamp) / (1000 * 60 * 60));
-    const minutes = Math.floor((Date.now() - timestamp) / (1000 * 60)) % 60;
-    return `${hours}h ${minutes}m`;
-  };
-
   const getSidingUtilization = () => {
     const totalSlots = Object.keys(yardState.sidingSlots).length;
     const occupiedSlots = Object.values(yardState.sidingSlots).filter(slot => slot.occupiedBy).length;
@@ -71,74 +257,11 @@ const SidingManager: React.FC<SidingManagerProps> = ({
 
   const blockingTrains = getBlockingTrains();
 
-  const SidingSlotCard: React.FC<{ 
-    slot: any; 
-    train: any; 
-    sidingNum: number; 
-    isBlocking?: boolean;
-  }> = ({ slot, train, sidingNum, isBlocking = false }) => {
-    if (!train) {
-      return (
-        <Card className="border-dashed border-muted h-20 flex items-center justify-center">
-          <span className="text-muted-foreground text-sm">Empty</span>
-        </Card>
-      );
-    }
-
-    return (
-      <Card className={`h-20 ${isBlocking ? 'border-warning bg-warning/5' : 'border-primary/20'}`}>
-        <CardContent className="p-2">
-          <div className="flex items-center justify-between mb-1">
-            <div className="font-medium text-sm">{train.number}</div>
-            <div className="flex gap-1">
-              {train.priority && (
-                <Badge variant="outline" className="text-xs">
-                  <AlertTriangle className="h-2 w-2 mr-1" />
-                  Priority
-                </Badge>
-              )}
-              {train.departSoon && (
-                <Badge variant="secondary" className="text-xs">
-                  <Clock className="h-2 w-2 mr-1" />
-                  Depart Soon
-                </Badge>
-              )}
-            </div>
-          </div>
-          
-          <div className="text-xs text-muted-foreground mb-2">
-            Parked: {formatDuration(train.lastUpdated)}
-          </div>
-          
-          <div className="flex gap-1">
-            <Button
-              size="sm"
-              variant="outline"
-              className="text-xs px-2 py-1 h-6"
-              onClick={() => onMoveTrain(train.id, 'preview')}
-            >
-              <Move className="h-3 w-3" />
-            </Button>
-            <Button
-              size="sm"
-              variant="destructive"
-              className="text-xs px-2 py-1 h-6"
-              onClick={() => onRemoveTrain(train.id)}
-            >
-              <Trash2 className="h-3 w-3" />
-            </Button>
-          </div>
-          
-          {isBlocking && (
-            <div className="mt-1 text-xs text-warning flex items-center gap-1">
-              <AlertTriangle className="h-3 w-3" />
-              Blocking departure
-            </div>
-          )}
-        </CardContent>
-      </Card>
-    );
-  };
+  // Stabled trains whose certificates have lapsed or will within the warning window; the
+  // list only changes when a train joins or leaves it, however often the clock moves
+  const certificateAlertIds = useYardSelector(state => Object.values(state.sidingSlots)
+    .map(slot => slot.occupiedBy)
+    .filter(trainId => trainId && hasCertificateAlert(state.trains[trainId], state.lastUpdate)), shallowEqual);
 
   return (
     <div className={`space-y-4 ${className}`}>
@@ -178,6 +301,20 @@ const SidingManager: React.FC<SidingManagerProps> = ({
             </div>
           </div>
           
+          {certificateAlertIds.length > 0 && (
+            <div className="p-3 bg-warning/10 border border-warning/20 rounded-lg space-y-2">
+              <div className="flex items-center gap-2 text-sm">
+                <ShieldAlert className="h-4 w-4 text-warning" />
+                <span className="font-medium">
+                  {certificateAlertIds.length} stabled train(s) with certificates lapsed or expiring soon
+                </span>
+              </div>
+              {certificateAlertIds.map(trainId => (
+                <CertificateAlert key={trainId} trainId={trainId} />
+              ))}
+            </div>
+          )}
+
           {blockingTrains.length > 0 && (
             <div className="p-3 bg-warning/10 border border-warning/20 rounded-lg">
               <div className="flex items-center gap-2 text-sm">
@@ -201,8 +338,6 @@ const SidingManager: React.FC<SidingManagerProps> = ({
             {Object.entries(sidingGroups)
               .sort(([a], [b]) => parseInt(a) - parseInt(b))
               .map(([sidingNum, siding]) => {
-                const trainA = siding.a?.occupiedBy ? yardState.trains[siding.a.occupiedBy] : null;
-                const trainB = siding.b?.occupiedBy ? yardState.trains[siding.b.occupiedBy] : null;
                 const isABlocking = blockingTrains.includes(siding.a?.occupiedBy);
 
                 return (
@@ -214,24 +349,29 @@ const SidingManager: React.FC<SidingManagerProps> = ({
                       <div>
                         <div className="text-xs text-muted-foreground mb-1">Slot A (Front)</div>
                         <SidingSlotCard
-                          slot={siding.a}
-                          train={trainA}
-                          sidingNum={parseInt(sidingNum)}
+                          trainId={siding.a?.occupiedBy}
                           isBlocking={isABlocking}
+                          onMoveTrain={onMoveTrain}
+                          onRemoveTrain={onRemoveTrain}
                         />
                       </div>
                       
                       <div>
                         <div className="text-xs text-muted-foreground mb-1">Slot B (Rear)</div>
                         <SidingSlotCard
-                          slot={siding.b}
-                          train={trainB}
-                          sidingNum={parseInt(sidingNum)}
+                          trainId={siding.b?.occupiedBy}
+                          onMoveTrain={onMoveTrain}
+                          onRemoveTrain={onRemoveTrain}
                         />
                       </div>
                       
-                      <div className="text-xs text-center text-muted-foreground">
-                        Reverse Cost: {siding.a?.reverseCost || 'N/A'}
+                      <div
+                        className="text-xs text-center text-muted-foreground"
+                        title={[siding.a, siding.b]
+                          .flatMap(slot => slot?.topology ? [`${slot.slot.toUpperCase()}: ${describeTopology(slot.topology)}`] : [])
+                          .join('\n')}
+                      >
+                        Reverse Cost: {siding.a?.reverseCost ?? 'N/A'} / {siding.b?.reverseCost ?? 'N/A'}
                       </div>
                     </CardContent>
                   </Card>
@@ -257,24 +397,85 @@ const SidingManager: React.FC<SidingManagerProps> = ({
               <DialogTrigger asChild>
                 <Button variant="outline" className="flex flex-col h-20 gap-2">
                   <Clock className="h-6 w-6" />
-                  <span className="text-sm">Departure Queue</span>
+                  <span className="text-sm">Departure Timetable</span>
                 </Button>
               </DialogTrigger>
-              <DialogContent>
+              <DialogContent className="max-w-2xl">
                 <DialogHeader>
-                  <DialogTitle>Departure Queue</DialogTitle>
+                  <DialogTitle>Departure Timetable</DialogTitle>
                 </DialogHeader>
-                <div className="space-y-2">
-                  {Object.values(yardState.trains)
-                    .filter(train => train.departSoon && train.status === 'parked')
-                    .map(train => (
-                      <div key={train.id} className="flex items-center justify-between p-2 border rounded">
-                        <span>{train.number}</span>
-                        <Button size="sm" onClick={() => onRemoveTrain(train.id)}>
-                          Prepare for Departure
-                        </Button>
-                      </div>
-                    ))}
+                <ScrollArea className="max-h-[60vh]">
+                  <div className="space-y-2 pr-2">
+                    {departures.map(departure => {
+                      const train = departure.trainId ? yardState.trains[departure.trainId] : undefined;
+                      const isPlanned = departure.status === 'planned';
+
+                      return (
+                        <div key={departure.id} className="p-2 border rounded space-y-1">
+                          <div className="flex items-center justify-between gap-2">
+                            <div className="flex items-center gap-2 min-w-0">
+                              <span className="font-mono font-semibold">{formatClock(departure.departureTime)}</span>
+                              <span className="truncate">{departure.serviceName}</span>
+                              <span className="text-xs text-muted-foreground">
+                                via {departure.exitPointId}
+                              </span>
+                              <Badge variant={getDepartureVariant(departure.status)} className="text-xs">
+                                {departure.status}
+                              </Badge>
+                            </div>
+
+                            <div className="flex items-center gap-2">
+                              <DepartureTrainSelect
+                                departure={departure}
+                                bookedTrainIds={bookedTrainIds}
+                                onAssignDeparture={onAssignDeparture}
+                              />
+                              <Button
+                                size="sm"
+                                onClick={() => train && onRemoveTrain(train.id)}
+                                disabled={!isPlanned || train?.status !== 'parked'}
+                              >
+                                Dispatch Now
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => onRemoveDeparture(departure.id)}
+                                disabled={departure.status === 'dispatched'}
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </Button>
+                            </div>
+                          </div>
+
+                          {isPlanned && departure.warnings.map((warning, idx) => (
+                            <div key={idx} className="text-xs text-warning flex items-center gap-1">
+                              <AlertTriangle className="h-3 w-3" />
+                              {warning}
+                            </div>
+                          ))}
+                          {departure.status === 'departed' && !!departure.lateByMs && departure.lateByMs > 60000 && (
+                            <div className="text-xs text-warning">
+                              Left {Math.ceil(departure.lateByMs / 60000)} min late
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </ScrollArea>
+
+                <div className="flex items-center gap-2 pt-2 border-t">
+                  <Input
+                    type="time"
+                    value={newDepartureTime}
+                    onChange={(e) => setNewDepartureTime(e.target.value)}
+                    className="w-32"
+                  />
+                  <Button size="sm" variant="outline" onClick={() => onAddDeparture(newDepartureTime)}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Service
+                  </Button>
                 </div>
               </DialogContent>
             </Dialog>
@@ -3,11 +3,12 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { YardState, AssignmentRecommendation } from '@/types/yard';
+import { AssignmentRecommendation } from '@/types/yard';
+import { useYardSlice } from '@/hooks/use-yard';
 import { Wrench, CheckCircle, Clock, AlertTriangle } from 'lucide-react';
+import ScoreBreakdown from './ScoreBreakdown';
 
 interface WorkshopDashboardProps {
-  yardState: YardState;
   recommendations: Record<string, AssignmentRecommendation[]>;
   onAssignToWorkshop: (trainId: string, workshopId: string) => void;
   onCompleteRepair: (trainId: string) => void;
@@ -15,12 +16,12 @@ interface WorkshopDashboardProps {
 }
 
 const WorkshopDashboard: React.FC<WorkshopDashboardProps> = ({
-  yardState,
   recommendations,
   onAssignToWorkshop,
   onCompleteRepair,
   className = ''
 }) => {
+  const yardState = useYardSlice('trains', 'workshopLines');
   const workshopLines = Object.values(yardState.workshopLines);
   const failedTrains = Object.values(yardState.trains).filter(train => 
     train.failures.length > 0 && train.status === 'moving'
@@ -197,17 +198,8 @@ const WorkshopDashboard: React.FC<WorkshopDashboardProps> = ({
                                   </Button>
                                 </div>
                                 
-                                {rec.reasoning.length > 0 && (
-                                  <div className="mt-2">
-                                    <ul className="text-xs text-muted-foreground">
-                                      {rec.reasoning.map((reason, idx) => (
-                                        <li key={idx} className="flex items-center gap-1">
-                                          <CheckCircle className="h-3 w-3 text-success" />
-                                          {reason}
-                                        </li>
-                                      ))}
-                                    </ul>
-                                  </div>
+                                {rec.scoreBreakdown.length > 0 && (
+                                  <ScoreBreakdown terms={rec.scoreBreakdown} className="mt-2" />
                                 )}
                               </CardContent>
                             </Card>
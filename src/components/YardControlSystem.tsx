@@ -5,66 +5,240 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 
 import YardMap from './YardMap';
 import EntryDashboard from './EntryDashboard';
 import InspectionDashboard from './InspectionDashboard';
 import WorkshopDashboard from './WorkshopDashboard';
 import SidingManager from './SidingManager';
+import InductionDashboard from './InductionDashboard';
+import BrandingDashboard from './BrandingDashboard';
+import CleaningDashboard from './CleaningDashboard';
+import ComparisonDashboard from './ComparisonDashboard';
+import ScoringPolicyDialog from './ScoringPolicyDialog';
 import EventLog from './EventLog';
+import PlanPreviewDialog from './PlanPreviewDialog';
 
-import { YardSimulator } from '@/lib/simulator';
-import { YardDefinition, Train, YardState, AssignmentRecommendation } from '@/types/yard';
-import { Play, Pause, RotateCcw, Settings, Activity, Zap } from 'lucide-react';
+import { SimulatorClient } from '@/lib/simulatorClient';
+import { YardStoreContext, useStoreSelector, useYardSelector, useYardSlice, useTrain } from '@/hooks/use-yard';
+import { nextTimeOfDay } from '@/lib/clock';
+import { loadStoredPolicies, storePolicies } from '@/lib/scoring';
+import { DEFAULT_ARRIVAL_INTERVAL_MS } from '@/lib/comparison';
+import { createSeed } from '@/lib/random';
+import {
+  YardDefinition,
+  Train,
+  AssignmentRecommendation,
+  YardScenario,
+  ScenarioDefinition,
+  CleaningType,
+  CleaningJob,
+  ScoringPolicy,
+  ComparisonVariant,
+  YardEvent
+} from '@/types/yard';
+import { Play, Pause, RotateCcw, Settings, Activity, Zap, Clock, SkipForward, FastForward, Hash, Dices } from 'lucide-react';
 
 interface YardControlSystemProps {
   yardDefinition: YardDefinition;
+  initialScenario?: YardScenario | ScenarioDefinition;
 }
 
-const YardControlSystem: React.FC<YardControlSystemProps> = ({ yardDefinition }) => {
-  const [simulator] = useState(() => new YardSimulator(yardDefinition));
-  const [yardState, setYardState] = useState<YardState>(simulator.getState());
+// A loaded scenario file sits beside the built-in ones in the reset menu
+const LOADED_SCENARIO = 'loaded';
+
+// Right panel dashboards, in tab order; the first is open on load
+const DASHBOARD_TABS = [
+  { value: 'inspection', label: 'Inspection' },
+  { value: 'workshop', label: 'Workshop' },
+  { value: 'siding', label: 'Sidings' },
+  { value: 'induction', label: 'Induction' },
+  { value: 'branding', label: 'Branding' },
+  { value: 'cleaning', label: 'Cleaning' },
+  { value: 'compare', label: 'Compare' }
+];
+
+// Parts of the page that follow fast-changing state select it themselves, so the clock ticking
+// or a train moving doesn't rerender the whole control system
+const SimulationTime: React.FC = () => {
+  const lastUpdate = useYardSelector(state => state.lastUpdate);
+  return (
+    <Badge variant="secondary" className="flex items-center gap-1 font-mono">
+      <Clock className="h-3 w-3" />
+      {new Date(lastUpdate).toLocaleTimeString()}
+    </Badge>
+  );
+};
+
+const TrainCounts: React.FC = () => {
+  const trains = useYardSelector(state => state.trains);
+
+  // Calculate statistics
+  const stats = useMemo(() => {
+    // Departed trains stay in state for the log but are no longer in the yard
+    const inYard = Object.values(trains).filter(t => t.status !== 'departed');
+    return {
+      total: inYard.length,
+      arriving: inYard.filter(t => t.status === 'arriving' || t.status === 'queued').length,
+      inspection: inYard.filter(t => t.status === 'inspection').length,
+      parked: inYard.filter(t => t.status === 'parked').length,
+      workshop: inYard.filter(t => t.status === 'workshop').length,
+      moving: inYard.filter(t => t.status === 'moving').length,
+      priority: inYard.filter(t => t.priority).length,
+      departSoon: inYard.filter(t => t.departSoon).length,
+      failed: inYard.filter(t => t.failures.length > 0).length
+    };
+  }, [trains]);
+
+  return (
+    <div className="flex items-center gap-4 text-sm">
+      <div className="flex items-center gap-1">
+        <div className="w-2 h-2 bg-train rounded-full"></div>
+        <span>{stats.total} Total</span>
+      </div>
+      <div className="flex items-center gap-1">
+        <div className="w-2 h-2 bg-warning rounded-full"></div>
+        <span>{stats.inspection} Inspection</span>
+      </div>
+      <div className="flex items-center gap-1">
+        <div className="w-2 h-2 bg-success rounded-full"></div>
+        <span>{stats.parked} Parked</span>
+      </div>
+      {stats.failed > 0 && (
+        <div className="flex items-center gap-1">
+          <div className="w-2 h-2 bg-destructive rounded-full"></div>
+          <span>{stats.failed} Failed</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const LiveYardMap: React.FC<Omit<React.ComponentProps<typeof YardMap>, 'trains' | 'lockedSegments' | 'switches'>> = (props) => {
+  const { trains, lockedSegments, switches } = useYardSlice('trains', 'lockedSegments', 'switches');
+  return <YardMap {...props} trains={trains} lockedSegments={lockedSegments} switches={switches} />;
+};
+
+const LiveEventLog: React.FC = () => {
+  const events = useYardSelector(state => state.eventLog);
+  return <EventLog events={events} />;
+};
+
+const SelectedTrainDetails: React.FC<{ trainId: string }> = ({ trainId }) => {
+  const train = useTrain(trainId);
+  if (!train) return null;
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div>Status: <Badge variant="outline">{train.status}</Badge></div>
+      <div>Location: {train.locationNodeId}</div>
+      <div>Fitness: {train.fitness}%</div>
+      <div>Mileage: {train.mileage.toLocaleString()} km</div>
+      {train.failures.length > 0 && (
+        <div>Issues: {train.failures.join(', ')}</div>
+      )}
+    </div>
+  );
+};
+
+const YardControlSystem: React.FC<YardControlSystemProps> = ({ yardDefinition, initialScenario = 'empty' }) => {
+  // The simulator itself runs in a worker; state arrives once it has built the yard
+  const [simulator] = useState(() => new SimulatorClient(yardDefinition, initialScenario, loadStoredPolicies()));
+  const store = simulator.store;
+  const loadedScenario = typeof initialScenario === 'object' ? initialScenario : null;
   const [recommendations, setRecommendations] = useState<Record<string, AssignmentRecommendation[]>>({});
   const [selectedTrain, setSelectedTrain] = useState<string | null>(null);
   const [selectedNode, setSelectedNode] = useState<string | null>(null);
-  const [isRunning, setIsRunning] = useState(true);
-  const [simulationSpeed, setSimulationSpeed] = useState(1);
-  const [activeTab, setActiveTab] = useState('entry');
+  const [runUntilTime, setRunUntilTime] = useState('06:00');
+  const [seedInput, setSeedInput] = useState('');
+  const [scenario, setScenario] = useState<string>(typeof initialScenario === 'object' ? LOADED_SCENARIO : initialScenario);
+  const [activeTab, setActiveTab] = useState(DASHBOARD_TABS[0].value);
+  const [previewPlanId, setPreviewPlanId] = useState<string | null>(null);
 
-  // Update yard state when simulator emits events
+  // Only what the page itself shows; the panels select their own state from the store
+  const ready = useStoreSelector(store, state => state !== null);
+  const paused = useStoreSelector(store, state => state?.paused);
+  const seed = useStoreSelector(store, state => state?.seed);
+  const simulationSpeed = useStoreSelector(store, state => state?.simulationSpeed);
+  const scoringPolicies = useStoreSelector(store, state => state?.scoringPolicies);
+  const previewPlan = useStoreSelector(store, state => (previewPlanId && state?.activePlans[previewPlanId]) || null);
+  const previewTrain = useStoreSelector(store, state => (previewPlan ? state?.trains[previewPlan.trainId] : undefined));
+  const previewTargetSlot = useStoreSelector(store, state => (previewPlan?.targetId ? state?.sidingSlots[previewPlan.targetId] : undefined));
+  const selectedTrainNumber = useStoreSelector(store, state => (selectedTrain ? state?.trains[selectedTrain]?.number : undefined));
+
+  // Pick up recommendations and plan previews from the events behind each update
   useEffect(() => {
-    const handleEvent = (event: any) => {
-      setYardState(simulator.getState());
-      
-      // Handle recommendation events
-      if (event.type === 'plan:preview' && event.data?.recommendations) {
-        setRecommendations(prev => ({
-          ...prev,
-          [event.trainId]: event.data.recommendations
-        }));
-      }
+    const handleUpdate = (_state: unknown, events: YardEvent[]) => {
+      events.forEach(event => {
+        // Handle recommendation events
+        if (event.type === 'plan:preview' && event.data?.recommendations) {
+          setRecommendations(prev => ({
+            ...prev,
+            [event.trainId]: event.data.recommendations
+          }));
+        }
+
+        // Open the preview dialog for plans requested from the dashboards
+        if (event.type === 'plan:preview' && event.data?.plan) {
+          setPreviewPlanId(event.data.plan.id);
+        }
+      });
     };
 
-    simulator.addEventListener(handleEvent);
-    return () => simulator.removeEventListener(handleEvent);
+    simulator.addEventListener(handleUpdate);
+    return () => {
+      simulator.removeEventListener(handleUpdate);
+      simulator.terminate();
+    };
   }, [simulator]);
 
+  // Keep the saved policies for the next session; the simulator gives new ones their ids
+  useEffect(() => {
+    if (scoringPolicies) storePolicies(Object.values(scoringPolicies));
+  }, [scoringPolicies]);
+
   // Simulation controls
+  const isRunning = !paused;
+
   const toggleSimulation = () => {
-    setIsRunning(!isRunning);
+    simulator.processCommand({ type: isRunning ? 'pause' : 'resume' });
   };
 
   const changeSpeed = (newSpeed: number[]) => {
     const speed = newSpeed[0];
-    setSimulationSpeed(speed);
     simulator.processCommand({ type: 'speed_change', data: { speed } });
   };
 
-  const resetSimulation = () => {
-    // This would reinitialize the simulator - for now just clear trains
-    Object.keys(yardState.trains).forEach(trainId => {
-      // In a real implementation, we'd have a reset command
+  const fastForward = () => {
+    simulator.processCommand({ type: 'fast_forward' });
+  };
+
+  // Next occurrence of HH:MM in simulation time, rolling over midnight for night shifts
+  const runUntil = () => {
+    const time = nextTimeOfDay(runUntilTime, simulator.now() + 1);
+    if (time) {
+      simulator.processCommand({ type: 'run_until', data: { time } });
+    }
+  };
+
+  // Without a seed the current one is kept, so a reset replays the same run
+  const resetSimulation = (seed?: number) => {
+    simulator.processCommand({
+      type: 'reset',
+      data: { scenario: scenario === LOADED_SCENARIO ? loadedScenario : scenario, seed }
     });
+    setRecommendations({});
+    setSelectedTrain(null);
+    setSelectedNode(null);
+    setPreviewPlanId(null);
+    setSeedInput('');
+  };
+
+  const resetWithSeed = () => {
+    const seed = parseInt(seedInput);
+    resetSimulation(isNaN(seed) ? undefined : seed);
   };
 
   // Event handlers
@@ -100,16 +274,104 @@ const YardControlSystem: React.FC<YardControlSystemProps> = ({ yardDefinition })
     simulator.processCommand({ type: 'remove_train', trainId });
   };
 
+  const handleAssignDeparture = (departureId: string, trainId?: string) => {
+    simulator.processCommand({ type: 'assign_departure', trainId, data: { departureId } });
+  };
+
+  const handleAddDeparture = (time: string) => {
+    const departureTime = nextTimeOfDay(time, simulator.now());
+    if (departureTime) {
+      simulator.processCommand({ type: 'add_departure', data: { time: departureTime } });
+    }
+  };
+
+  const handleRemoveDeparture = (departureId: string) => {
+    simulator.processCommand({ type: 'remove_departure', data: { departureId } });
+  };
+
+  const handlePlanInduction = () => {
+    simulator.processCommand({ type: 'plan_induction' });
+  };
+
+  const handleAcceptInduction = (planId: string) => {
+    simulator.processCommand({ type: 'accept_induction', data: { planId } });
+  };
+
+  const handleAddContract = (advertiser: string, requiredHours: number, periodDays: number, trainIds: string[]) => {
+    simulator.processCommand({ type: 'add_branding_contract', data: { advertiser, requiredHours, periodDays, trainIds } });
+  };
+
+  const handleRemoveContract = (contractId: string) => {
+    simulator.processCommand({ type: 'remove_branding_contract', data: { contractId } });
+  };
+
+  const handleScheduleCleaning = (trainId: string, type: CleaningType, location: CleaningJob['location'], bayId?: string, time?: string) => {
+    const scheduledFor = time ? nextTimeOfDay(time, simulator.now()) : undefined;
+    simulator.processCommand({ type: 'schedule_cleaning', trainId, data: { type, location, bayId, scheduledFor } });
+  };
+
+  const handleCancelCleaning = (jobId: string) => {
+    simulator.processCommand({ type: 'cancel_cleaning', data: { jobId } });
+  };
+
+  const handleSetCleaningCrews = (crews: number) => {
+    simulator.processCommand({ type: 'set_cleaning_crews', data: { crews } });
+  };
+
+  const handleSavePolicy = (policy: ScoringPolicy) => {
+    simulator.processCommand({ type: 'save_scoring_policy', data: { policy } });
+  };
+
+  const handleSelectPolicy = (policyId: string) => {
+    simulator.processCommand({ type: 'select_scoring_policy', data: { policyId } });
+  };
+
+  const handleDeletePolicy = (policyId: string) => {
+    simulator.processCommand({ type: 'delete_scoring_policy', data: { policyId } });
+  };
+
+  const handleSelectStrategy = (strategyId: string) => {
+    simulator.processCommand({ type: 'select_strategy', data: { strategyId } });
+  };
+
+  // Both runs start at the coming evening so they take in the whole morning timetable
+  const handleRunComparison = (
+    variants: [ComparisonVariant, ComparisonVariant],
+    seed: number,
+    arrivals: number,
+    comparisonScenario: YardScenario
+  ) => simulator.runComparison({
+    seed,
+    scenario: comparisonScenario,
+    startTime: nextTimeOfDay('21:00', simulator.now()) ?? simulator.now(),
+    arrivals,
+    arrivalIntervalMs: DEFAULT_ARRIVAL_INTERVAL_MS,
+    variants
+  });
+
   const handleMoveTrain = (trainId: string, targetSlotId: string) => {
     // Preview move for now
     console.log(`Preview move: ${trainId} to ${targetSlotId}`);
   };
 
   const handlePreviewPlan = (trainId: string, targetId: string) => {
-    // This would trigger plan preview
-    console.log(`Preview plan: ${trainId} to ${targetId}`);
+    simulator.processCommand({ type: 'preview_plan', trainId, data: { targetId } });
+  };
+
+  const handleExecutePlan = (planId: string) => {
+    simulator.processCommand({ type: 'execute_plan', data: { planId } });
+    setPreviewPlanId(null);
+  };
+
+  const handleCancelPlan = (planId: string) => {
+    simulator.processCommand({ type: 'cancel_plan', data: { planId } });
+    setPreviewPlanId(null);
   };
 
+  const previewTargetLabel = previewTargetSlot
+    ? `${previewTargetSlot.sidingId}-${previewTargetSlot.slot}`
+    : previewPlan?.targetId && yardDefinition.nodes[previewPlan.targetId]?.label;
+
   const handleNodeClick = (nodeId: string) => {
     setSelectedNode(nodeId);
   };
@@ -118,204 +380,280 @@ const YardControlSystem: React.FC<YardControlSystemProps> = ({ yardDefinition })
     setSelectedTrain(trainId);
   };
 
-  // Calculate statistics
-  const stats = useMemo(() => {
-    const trains = Object.values(yardState.trains);
-    return {
-      total: trains.length,
-      arriving: trains.filter(t => t.status === 'arriving' || t.status === 'queued').length,
-      inspection: trains.filter(t => t.status === 'inspection').length,
-      parked: trains.filter(t => t.status === 'parked').length,
-      workshop: trains.filter(t => t.status === 'workshop').length,
-      moving: trains.filter(t => t.status === 'moving').length,
-      priority: trains.filter(t => t.priority).length,
-      departSoon: trains.filter(t => t.departSoon).length,
-      failed: trains.filter(t => t.failures.length > 0).length
-    };
-  }, [yardState.trains]);
+  if (!ready) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="text-center">
+          <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full mx-auto mb-4"></div>
+          <h2 className="text-xl font-semibold mb-2">Starting Simulator</h2>
+          <p className="text-muted-foreground">Setting up the yard...</p>
+        </div>
+      </div>
+    );
+  }
 
   return (
-    <div className="h-screen flex flex-col bg-background">
-      {/* Header */}
-      <header className="border-b bg-card shadow-panel p-4">
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-4">
-            <h1 className="text-2xl font-bold text-primary">
-              Kochi Metro Muttom Yard Control System
-            </h1>
-            <Badge variant="outline" className="flex items-center gap-1">
-              <Activity className="h-3 w-3" />
-              {isRunning ? 'Running' : 'Paused'}
-            </Badge>
-          </div>
-
-          <div className="flex items-center gap-4">
-            {/* Statistics */}
-            <div className="flex items-center gap-4 text-sm">
-              <div className="flex items-center gap-1">
-                <div className="w-2 h-2 bg-train rounded-full"></div>
-                <span>{stats.total} Total</span>
-              </div>
-              <div className="flex items-center gap-1">
-                <div className="w-2 h-2 bg-warning rounded-full"></div>
-                <span>{stats.inspection} Inspection</span>
-              </div>
-              <div className="flex items-center gap-1">
-                <div className="w-2 h-2 bg-success rounded-full"></div>
-                <span>{stats.parked} Parked</span>
-              </div>
-              {stats.failed > 0 && (
-                <div className="flex items-center gap-1">
-                  <div className="w-2 h-2 bg-destructive rounded-full"></div>
-                  <span>{stats.failed} Failed</span>
-                </div>
-              )}
+    <YardStoreContext.Provider value={store}>
+      <div className="h-screen flex flex-col bg-background">
+        {/* Header */}
+        <header className="border-b bg-card shadow-panel p-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <h1 className="text-2xl font-bold text-primary">
+                Kochi Metro Muttom Yard Control System
+              </h1>
+              <Badge variant="outline" className="flex items-center gap-1">
+                <Activity className="h-3 w-3" />
+                {isRunning ? 'Running' : 'Paused'}
+              </Badge>
+              <SimulationTime />
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Badge variant="outline" className="flex items-center gap-1 font-mono cursor-pointer" title="Random seed - reset with it to repeat the run's ids and outcomes">
+                    <Hash className="h-3 w-3" />
+                    {seed}
+                  </Badge>
+                </PopoverTrigger>
+                <PopoverContent className="w-64 space-y-2">
+                  <div className="text-sm font-medium">Reset with seed</div>
+                  <p className="text-xs text-muted-foreground">
+                    The seed repeats ids and chance outcomes. Live, events fall on the wall clock, so
+                    only headless runs and comparisons replay the same event log exactly.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      placeholder={`${seed}`}
+                      value={seedInput}
+                      onChange={(e) => setSeedInput(e.target.value)}
+                    />
+                    <Button size="sm" onClick={resetWithSeed}>Reset</Button>
+                  </div>
+                  <Button size="sm" variant="outline" className="w-full" onClick={() => resetSimulation(createSeed())}>
+                    <Dices className="h-4 w-4 mr-1" />
+                    Reset with a new seed
+                  </Button>
+                </PopoverContent>
+              </Popover>
             </div>
 
-            {/* Controls */}
-            <div className="flex items-center gap-2">
-              <Button
-                variant={isRunning ? "default" : "outline"}
-                size="sm"
-                onClick={toggleSimulation}
-              >
-                {isRunning ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
-              </Button>
+            <div className="flex items-center gap-4">
+              <TrainCounts />
+
+              {/* Controls */}
+              <div className="flex items-center gap-2">
+                <Button
+                  variant={isRunning ? "default" : "outline"}
+                  size="sm"
+                  onClick={toggleSimulation}
+                >
+                  {isRunning ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                </Button>
               
-              <Button variant="outline" size="sm" onClick={resetSimulation}>
-                <RotateCcw className="h-4 w-4" />
-              </Button>
-
-              <div className="flex items-center gap-2 min-w-32">
-                <Zap className="h-4 w-4 text-muted-foreground" />
-                <Slider
-                  value={[simulationSpeed]}
-                  onValueChange={changeSpeed}
-                  min={0.1}
-                  max={5}
-                  step={0.1}
-                  className="w-20"
+                <Button variant="outline" size="sm" onClick={fastForward} title="Fast-forward to next event">
+                  <SkipForward className="h-4 w-4" />
+                </Button>
+
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" size="sm" title="Run until time">
+                      <FastForward className="h-4 w-4" />
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-56 space-y-2">
+                    <div className="text-sm font-medium">Run until</div>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        value={runUntilTime}
+                        onChange={(e) => setRunUntilTime(e.target.value)}
+                      />
+                      <Button size="sm" onClick={runUntil}>Go</Button>
+                    </div>
+                  </PopoverContent>
+                </Popover>
+
+                <Select value={scenario} onValueChange={setScenario}>
+                  <SelectTrigger className="w-36 h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="empty">Empty yard</SelectItem>
+                    <SelectItem value="preset">Preset occupancy</SelectItem>
+                    {loadedScenario && (
+                      <SelectItem value={LOADED_SCENARIO}>{loadedScenario.name}</SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+
+                <Button variant="outline" size="sm" onClick={() => resetSimulation()} title="Reset to selected scenario">
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+
+                <ScoringPolicyDialog
+                  onSavePolicy={handleSavePolicy}
+                  onSelectPolicy={handleSelectPolicy}
+                  onDeletePolicy={handleDeletePolicy}
+                  onSelectStrategy={handleSelectStrategy}
                 />
-                <span className="text-xs text-muted-foreground min-w-8">
-                  {simulationSpeed.toFixed(1)}x
-                </span>
+
+                <div className="flex items-center gap-2 min-w-32">
+                  <Zap className="h-4 w-4 text-muted-foreground" />
+                  <Slider
+                    value={[simulationSpeed]}
+                    onValueChange={changeSpeed}
+                    min={0.1}
+                    max={10}
+                    step={0.1}
+                    className="w-20"
+                  />
+                  <span className="text-xs text-muted-foreground min-w-8">
+                    {simulationSpeed.toFixed(1)}x
+                  </span>
+                </div>
               </div>
             </div>
           </div>
-        </div>
-      </header>
-
-      {/* Main Content */}
-      <div className="flex-1 flex overflow-hidden">
-        {/* Left Panel - Entry Dashboard */}
-        <div className="w-80 border-r bg-card p-4 overflow-y-auto">
-          <EntryDashboard
-            yardState={yardState}
-            onCreateTrain={handleCreateTrain}
-          />
-        </div>
+        </header>
 
-        {/* Center - Yard Map */}
-        <div className="flex-1 flex flex-col">
-          <div className="flex-1 p-4">
-            <YardMap
-              yardDefinition={yardDefinition}
-              trains={yardState.trains}
-              onNodeClick={handleNodeClick}
-              onTrainClick={handleTrainClick}
-              className="h-full"
+        {/* Main Content */}
+        <div className="flex-1 flex overflow-hidden">
+          {/* Left Panel - Entry Dashboard */}
+          <div className="w-80 border-r bg-card p-4 overflow-y-auto">
+            <EntryDashboard
+              onCreateTrain={handleCreateTrain}
             />
           </div>
+
+          {/* Center - Yard Map */}
+          <div className="flex-1 flex flex-col">
+            <div className="flex-1 p-4">
+              <LiveYardMap
+                yardDefinition={yardDefinition}
+                highlightedSegments={previewPlan?.requiredLocks}
+                onNodeClick={handleNodeClick}
+                onTrainClick={handleTrainClick}
+                className="h-full"
+              />
+            </div>
           
-          {/* Bottom Event Log */}
-          <div className="h-80 border-t bg-card p-4">
-            <EventLog events={yardState.eventLog} />
+            {/* Bottom Event Log */}
+            <div className="h-80 border-t bg-card p-4">
+              <LiveEventLog />
+            </div>
           </div>
-        </div>
 
-        {/* Right Panel - Context Dashboards */}
-        <div className="w-96 border-l bg-card overflow-y-auto">
-          <Tabs value={activeTab} onValueChange={setActiveTab} className="h-full">
-            <TabsList className="grid w-full grid-cols-3 m-4">
-              <TabsTrigger value="inspection">Inspection</TabsTrigger>
-              <TabsTrigger value="workshop">Workshop</TabsTrigger>
-              <TabsTrigger value="siding">Sidings</TabsTrigger>
-            </TabsList>
+          {/* Right Panel - Context Dashboards */}
+          <div className="w-[30rem] border-l bg-card overflow-y-auto">
+            <Tabs value={activeTab} onValueChange={setActiveTab} className="h-full">
+              {/* One column per tab, so every tab sits on a single row */}
+              <TabsList className="grid grid-cols-7 h-auto m-4">
+                {DASHBOARD_TABS.map(tab => (
+                  <TabsTrigger key={tab.value} value={tab.value} className="px-1 text-xs">{tab.label}</TabsTrigger>
+                ))}
+              </TabsList>
             
-            <TabsContent value="inspection" className="p-4 pt-0">
-              <InspectionDashboard
-                yardState={yardState}
-                recommendations={recommendations}
-                onAssignTrain={handleAssignTrain}
-                onPreviewPlan={handlePreviewPlan}
-              />
-            </TabsContent>
+              <TabsContent value="inspection" className="p-4 pt-0">
+                <InspectionDashboard
+                  recommendations={recommendations}
+                  onAssignTrain={handleAssignTrain}
+                  onPreviewPlan={handlePreviewPlan}
+                />
+              </TabsContent>
             
-            <TabsContent value="workshop" className="p-4 pt-0">
-              <WorkshopDashboard
-                yardState={yardState}
-                recommendations={recommendations}
-                onAssignToWorkshop={handleAssignToWorkshop}
-                onCompleteRepair={handleCompleteRepair}
-              />
-            </TabsContent>
+              <TabsContent value="workshop" className="p-4 pt-0">
+                <WorkshopDashboard
+                  recommendations={recommendations}
+                  onAssignToWorkshop={handleAssignToWorkshop}
+                  onCompleteRepair={handleCompleteRepair}
+                />
+              </TabsContent>
             
-            <TabsContent value="siding" className="p-4 pt-0">
-              <SidingManager
-                yardState={yardState}
-                onRemoveTrain={handleRemoveTrain}
-                onMoveTrain={handleMoveTrain}
-              />
-            </TabsContent>
-          </Tabs>
+              <TabsContent value="siding" className="p-4 pt-0">
+                <SidingManager
+                  onRemoveTrain={handleRemoveTrain}
+                  onMoveTrain={handleMoveTrain}
+                  onAssignDeparture={handleAssignDeparture}
+                  onAddDeparture={handleAddDeparture}
+                  onRemoveDeparture={handleRemoveDeparture}
+                />
+              </TabsContent>
+
+              <TabsContent value="induction" className="p-4 pt-0">
+                <InductionDashboard
+                  onPlanInduction={handlePlanInduction}
+                  onAcceptInduction={handleAcceptInduction}
+                />
+              </TabsContent>
+
+              <TabsContent value="branding" className="p-4 pt-0">
+                <BrandingDashboard
+                  onAddContract={handleAddContract}
+                  onRemoveContract={handleRemoveContract}
+                />
+              </TabsContent>
+
+              <TabsContent value="cleaning" className="p-4 pt-0">
+                <CleaningDashboard
+                  onScheduleCleaning={handleScheduleCleaning}
+                  onCancelCleaning={handleCancelCleaning}
+                  onSetCrews={handleSetCleaningCrews}
+                />
+              </TabsContent>
+
+              <TabsContent value="compare" className="p-4 pt-0">
+                <ComparisonDashboard
+                  onRunComparison={handleRunComparison}
+                />
+              </TabsContent>
+            </Tabs>
+          </div>
         </div>
-      </div>
 
-      {/* Selected Train/Node Info Modal */}
-      {(selectedTrain || selectedNode) && (
-        <div className="fixed bottom-4 right-4 w-80">
-          <Card className="shadow-lg">
-            <CardHeader className="pb-2">
-              <CardTitle className="text-sm">
-                {selectedTrain ? `Train ${yardState.trains[selectedTrain]?.number}` : `Node ${selectedNode}`}
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="pt-0">
-              {selectedTrain && yardState.trains[selectedTrain] && (
-                <div className="space-y-2 text-sm">
-                  <div>Status: <Badge variant="outline">{yardState.trains[selectedTrain].status}</Badge></div>
-                  <div>Location: {yardState.trains[selectedTrain].locationNodeId}</div>
-                  <div>Fitness: {yardState.trains[selectedTrain].fitness}%</div>
-                  <div>Mileage: {yardState.trains[selectedTrain].mileage.toLocaleString()} km</div>
-                  {yardState.trains[selectedTrain].failures.length > 0 && (
-                    <div>Issues: {yardState.trains[selectedTrain].failures.join(', ')}</div>
-                  )}
-                </div>
-              )}
+        <PlanPreviewDialog
+          plan={previewPlan}
+          train={previewTrain}
+          targetLabel={previewTargetLabel}
+          onExecute={handleExecutePlan}
+          onCancel={handleCancelPlan}
+        />
+
+        {/* Selected Train/Node Info Modal */}
+        {(selectedTrain || selectedNode) && (
+          <div className="fixed bottom-4 right-4 w-80">
+            <Card className="shadow-lg">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">
+                  {selectedTrain ? `Train ${selectedTrainNumber}` : `Node ${selectedNode}`}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">
+                {selectedTrain && <SelectedTrainDetails trainId={selectedTrain} />}
               
-              {selectedNode && (
-                <div className="space-y-2 text-sm">
-                  <div>Type: {yardDefinition.nodes[selectedNode]?.type}</div>
-                  <div>Connections: {yardDefinition.nodes[selectedNode]?.connections.length}</div>
-                </div>
-              )}
+                {selectedNode && (
+                  <div className="space-y-2 text-sm">
+                    <div>Type: {yardDefinition.nodes[selectedNode]?.type}</div>
+                    <div>Connections: {yardDefinition.nodes[selectedNode]?.connections.length}</div>
+                  </div>
+                )}
               
-              <Button
-                variant="outline"
-                size="sm"
-                className="w-full mt-3"
-                onClick={() => {
-                  setSelectedTrain(null);
-                  setSelectedNode(null);
-                }}
-              >
-                Close
-              </Button>
-            </CardContent>
-          </Card>
-        </div>
-      )}
-    </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full mt-3"
+                  onClick={() => {
+                    setSelectedTrain(null);
+                    setSelectedNode(null);
+                  }}
+                >
+                  Close
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </YardStoreContext.Provider>
   );
 };
 
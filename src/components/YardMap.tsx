@@ -1,9 +1,13 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { YardDefinition, Node, Train } from '@/types/yard';
+import { YardDefinition, Node, Train, SwitchState } from '@/types/yard';
+import { segmentId } from '@/lib/routing';
 
 interface YardMapProps {
   yardDefinition: YardDefinition;
   trains: Record<string, Train>;
+  lockedSegments?: Set<string>;
+  highlightedSegments?: string[];
+  switches?: Record<string, SwitchState>;
   onNodeClick?: (nodeId: string) => void;
   onTrainClick?: (trainId: string) => void;
   className?: string;
@@ -12,6 +16,9 @@ interface YardMapProps {
 const YardMap: React.FC<YardMapProps> = ({ 
   yardDefinition, 
   trains, 
+  lockedSegments,
+  highlightedSegments = [],
+  switches = {},
   onNodeClick, 
   onTrainClick,
   className = '' 
@@ -80,6 +87,12 @@ const YardMap: React.FC<YardMapProps> = ({
       
       if (!fromNode || !toNode) return null;
 
+      const segments = connection.segments?.length
+        ? connection.segments
+        : [segmentId(connection.from, connection.to)];
+      const isLocked = segments.some(segment => lockedSegments?.has(segment));
+      const isHighlighted = segments.some(segment => highlightedSegments.includes(segment));
+
       return (
         <line
           key={`connection-${index}`}
@@ -87,18 +100,55 @@ const YardMap: React.FC<YardMapProps> = ({
           y1={fromNode.y}
           x2={toNode.x}
           y2={toNode.y}
-          stroke="hsl(var(--track))"
-          strokeWidth="3"
+          stroke={
+            isHighlighted ? 'hsl(var(--track-active))' :
+            isLocked ? 'hsl(var(--track-locked))' :
+            'hsl(var(--track))'
+          }
+          strokeWidth={isHighlighted || isLocked ? 5 : 3}
+          strokeDasharray={isHighlighted ? '10 4' : undefined}
           className="hover:stroke-track-active transition-colors duration-200"
         />
       );
     });
   };
 
+  // Render the leg each switch is set towards as a short stub out of the switch; the trunk
+  // is shared by every leg, so a switch never lies towards it
+  const renderSwitchPositions = () => {
+    return Object.values(switches).map(sw => {
+      const node = yardDefinition.nodes[sw.nodeId];
+      const target = yardDefinition.nodes[sw.position];
+      if (!node || !target || !sw.positions.includes(sw.position)) return null;
+
+      const dx = target.x - node.x;
+      const dy = target.y - node.y;
+      const length = Math.hypot(dx, dy) || 1;
+      const stub = Math.min(24, length);
+
+      return (
+        <line
+          key={`switch-${sw.id}`}
+          x1={node.x}
+          y1={node.y}
+          x2={node.x + (dx / length) * stub}
+          y2={node.y + (dy / length) * stub}
+          stroke="hsl(var(--track-active))"
+          strokeWidth={5}
+          strokeLinecap="round"
+          className="pointer-events-none"
+        />
+      );
+    });
+  };
+
   // Render nodes
   const renderNodes = () => {
     return Object.values(yardDefinition.nodes).map(node => {
-      const isOccupied = Object.values(trains).some(train => train.locationNodeId === node.id);
+      const isOccupied = Object.values(trains).some(train =>
+        train.locationNodeId === node.id && train.status !== 'departed'
+      );
+      const sw = switches[node.id];
       
       return (
         <g key={node.id}>
@@ -107,13 +157,15 @@ const YardMap: React.FC<YardMapProps> = ({
             cy={node.y}
             r={node.type === 'switch' ? 8 : 6}
             fill="hsl(var(--node))"
-            stroke="hsl(var(--track))"
-            strokeWidth="2"
+            stroke={sw?.locked ? 'hsl(var(--track-locked))' : 'hsl(var(--track))'}
+            strokeWidth={sw?.locked ? 3 : 2}
             className={`cursor-pointer transition-all duration-200 hover:r-10 ${
               isOccupied ? 'fill-train' : ''
             }`}
             onClick={() => onNodeClick?.(node.id)}
-          />
+          >
+            {sw && <title>{`${node.id} set towards ${sw.position} of ${sw.positions.join(', ')}${sw.locked ? ' (locked)' : ''}`}</title>}
+          </circle>
           
           {/* Node labels */}
           {node.label && (
@@ -137,7 +189,7 @@ const YardMap: React.FC<YardMapProps> = ({
   const renderTrains = () => {
     return Object.values(trains).map(train => {
       const node = yardDefinition.nodes[train.locationNodeId];
-      if (!node) return null;
+      if (!node || train.status === 'departed') return null;
 
       const trainColor = train.status === 'moving' ? 'hsl(var(--train-moving))' : 
                         train.failures.length > 0 ? 'hsl(var(--train-error))' : 
@@ -261,6 +313,20 @@ const YardMap: React.FC<YardMapProps> = ({
             <div className="w-3 h-3 rounded-full bg-warning"></div>
             <span>Priority</span>
           </div>
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-1 bg-track-active"></div>
+            <span>Switch Setting</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-1 bg-track-locked"></div>
+            <span>Locked Segment</span>
+          </div>
+          {highlightedSegments.length > 0 && (
+            <div className="flex items-center gap-2">
+              <div className="w-4 h-1 bg-track-active"></div>
+              <span>Previewed Route</span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -285,6 +351,7 @@ const YardMap: React.FC<YardMapProps> = ({
         {/* Render all elements */}
         {renderZoneLabels()}
         {renderConnections()}
+        {renderSwitchPositions()}
         {renderNodes()}
         {renderTrains()}
       </svg>
@@ -0,0 +1,73 @@
+import { createContext, useContext, useRef, useSyncExternalStore } from 'react';
+import { YardState, Train, InspectionBay } from '@/types/yard';
+import { YardStore } from '@/lib/store';
+
+// Provided by YardControlSystem once the simulator has built the yard
+export const YardStoreContext = createContext<YardStore | null>(null);
+
+export function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length &&
+    keys.every(key => Object.is(a[key as keyof T], b[key as keyof T]));
+}
+
+// Rerenders only when the selected value changes. Selectors should return parts of the state
+// as they are, or pass an isEqual that sees through anything built fresh on each call.
+export function useStoreSelector<T>(
+  store: YardStore,
+  selector: (state: YardState | null) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is
+): T {
+  const cache = useRef<{ state: YardState | null; selector: typeof selector; value: T } | null>(null);
+
+  const getSnapshot = (): T => {
+    const state = store.getState();
+    const cached = cache.current;
+    if (cached && cached.state === state && cached.selector === selector) return cached.value;
+
+    const value = selector(state);
+    // An equal result keeps the old reference, so React sees nothing to do
+    const kept = cached && isEqual(cached.value, value) ? cached.value : value;
+    cache.current = { state, selector, value: kept };
+    return kept;
+  };
+
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+}
+
+function useYardStore(): YardStore {
+  const store = useContext(YardStoreContext);
+  if (!store) throw new Error('Yard hooks need a YardStoreContext provider');
+  return store;
+}
+
+export function useYardSelector<T>(selector: (state: YardState) => T, isEqual?: (a: T, b: T) => boolean): T {
+  return useStoreSelector(useYardStore(), selector, isEqual);
+}
+
+// The named top-level parts of the state, rerendering when any of them changes
+export function useYardSlice<K extends keyof YardState>(...keys: K[]): Pick<YardState, K> {
+  return useYardSelector(state => {
+    const slice = {} as Pick<YardState, K>;
+    keys.forEach(key => {
+      slice[key] = state[key];
+    });
+    return slice;
+  }, shallowEqual);
+}
+
+// The simulation clock rounded down to the step, so a panel that shows minutes rerenders
+// once a minute rather than on every tick
+export function useSimulationTime(stepMs: number): number {
+  return useYardSelector(state => Math.floor(state.lastUpdate / stepMs) * stepMs);
+}
+
+export function useTrain(trainId: string | null | undefined): Train | undefined {
+  return useYardSelector(state => (trainId ? state.trains[trainId] : undefined));
+}
+
+export function useBay(bayId: string): InspectionBay | undefined {
+  return useYardSelector(state => state.inspectionBays[bayId]);
+}
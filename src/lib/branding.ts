@@ -0,0 +1,68 @@
+import { Train, BrandingContract } from '@/types/yard';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const SERVICE_DAY_HOURS = 17; // first departure to last return on a revenue day
+export const DEFAULT_BRANDING_PERIOD_DAYS = 7;
+
+const BEHIND_TOLERANCE = 0.8; // below this share of the pro-rata hours a contract is at risk
+const HOURS_PER_SCORE_POINT = 2;
+const MAX_BRANDING_ADJUSTMENT = 15;
+
+export interface ContractCompliance {
+  accruedHours: number;
+  expectedHours: number; // pro-rata share of the requirement for the time elapsed
+  remainingHours: number;
+  capacityHours: number; // most the linked trains could still run before the period ends
+  periodEnd: number;
+  status: 'met' | 'on-track' | 'at-risk';
+}
+
+export function getContractCompliance(contract: BrandingContract, now: number): ContractCompliance {
+  const accruedHours = Object.values(contract.exposureHours).reduce((sum, hours) => sum + hours, 0);
+  const elapsed = Math.min(1, Math.max(0, (now - contract.periodStart) / contract.periodMs));
+  const expectedHours = contract.requiredHours * elapsed;
+  const remainingHours = Math.max(0, contract.requiredHours - accruedHours);
+  const periodEnd = contract.periodStart + contract.periodMs;
+  const daysLeft = Math.ceil(Math.max(0, periodEnd - now) / DAY_MS);
+  const capacityHours = contract.trainIds.length * daysLeft * SERVICE_DAY_HOURS;
+
+  let status: ContractCompliance['status'] = 'on-track';
+  if (remainingHours === 0) {
+    status = 'met';
+  } else if (remainingHours > capacityHours || accruedHours < expectedHours * BEHIND_TOLERANCE) {
+    status = 'at-risk';
+  }
+
+  return { accruedHours, expectedHours, remainingHours, capacityHours, periodEnd, status };
+}
+
+export function getTrainContract(train: Train, contracts: BrandingContract[]): BrandingContract | undefined {
+  return contracts.find(contract => contract.trainIds.includes(train.id));
+}
+
+// Hours the train's wrap is behind its pro-rata exposure; 0 for unbranded or on-schedule trains
+export function getExposureShortfall(train: Train, contracts: BrandingContract[], now: number): number {
+  const contract = getTrainContract(train, contracts);
+  if (!contract) return 0;
+
+  const compliance = getContractCompliance(contract, now);
+  if (compliance.status === 'met') return 0;
+  return Math.max(0, compliance.expectedHours - compliance.accruedHours);
+}
+
+// Score boost that puts under-exposed wraps into service ahead of plain trains
+export function getBrandingAdjustment(train: Train, contracts: BrandingContract[], now: number): number {
+  return Math.min(MAX_BRANDING_ADJUSTMENT, getExposureShortfall(train, contracts, now) / HOURS_PER_SCORE_POINT);
+}
+
+export function describeBranding(train: Train, contracts: BrandingContract[], now: number): string | undefined {
+  const contract = getTrainContract(train, contracts);
+  if (!contract) return undefined;
+
+  const shortfall = getExposureShortfall(train, contracts, now);
+  return shortfall >= 1
+    ? `${contract.advertiser} wrap ${Math.round(shortfall)}h behind contracted exposure`
+    : `${contract.advertiser} wrap on schedule`;
+}
@@ -0,0 +1,49 @@
+import { Train, CertificateType, FitnessCertificate } from '@/types/yard';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const CERTIFICATE_TYPES: CertificateType[] = ['rolling-stock', 'signalling', 'telecom'];
+
+export const CERTIFICATE_LABELS: Record<CertificateType, string> = {
+  'rolling-stock': 'Rolling stock',
+  signalling: 'Signalling',
+  telecom: 'Telecom'
+};
+
+export const CERTIFICATE_VALIDITY_MS: Record<CertificateType, number> = {
+  'rolling-stock': 72 * HOUR_MS,
+  signalling: 7 * 24 * HOUR_MS,
+  telecom: 7 * 24 * HOUR_MS
+};
+
+export const EXPIRY_WARNING_MS = 12 * HOUR_MS; // how far ahead dashboards start warning
+
+export function issueCertificate(type: CertificateType, issuedAt: number): FitnessCertificate {
+  return { type, issuedAt, expiresAt: issuedAt + CERTIFICATE_VALIDITY_MS[type] };
+}
+
+// A fresh train arrives part-way through each validity window
+export function createCertificates(now: number, random: () => number): Record<CertificateType, FitnessCertificate> {
+  const certificates = {} as Record<CertificateType, FitnessCertificate>;
+  CERTIFICATE_TYPES.forEach(type => {
+    certificates[type] = issueCertificate(type, now - Math.floor(random() * CERTIFICATE_VALIDITY_MS[type]));
+  });
+  return certificates;
+}
+
+export function getExpiredCertificates(train: Train, at: number): FitnessCertificate[] {
+  return Object.values(train.certificates).filter(certificate => certificate.expiresAt <= at);
+}
+
+// Still valid at `at` but lapsing within the window
+export function getExpiringCertificates(train: Train, at: number, withinMs: number = EXPIRY_WARNING_MS): FitnessCertificate[] {
+  return Object.values(train.certificates)
+    .filter(certificate => certificate.expiresAt > at && certificate.expiresAt <= at + withinMs);
+}
+
+export function describeExpiry(certificate: FitnessCertificate, at: number): string {
+  const hours = Math.abs(certificate.expiresAt - at) / HOUR_MS;
+  const span = hours >= 1 ? `${Math.round(hours)}h` : `${Math.max(1, Math.round(hours * 60))}m`;
+  const label = `${CERTIFICATE_LABELS[certificate.type]} certificate`;
+  return certificate.expiresAt <= at ? `${label} expired ${span} ago` : `${label} expires in ${span}`;
+}
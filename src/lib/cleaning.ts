@@ -0,0 +1,46 @@
+import { Train, CleaningType } from '@/types/yard';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const CLEANING_TYPES: CleaningType[] = ['interior', 'deep-detail'];
+
+export const CLEANING_LABELS: Record<CleaningType, string> = {
+  interior: 'Interior clean',
+  'deep-detail': 'Deep detailing'
+};
+
+export const CLEANING_DURATION_MS: Record<CleaningType, number> = {
+  interior: 45 * 60 * 1000,
+  'deep-detail': 3 * HOUR_MS
+};
+
+// How long a clean lasts before the train is due again
+export const CLEANING_INTERVAL_MS: Record<CleaningType, number> = {
+  interior: 24 * HOUR_MS,
+  'deep-detail': 14 * 24 * HOUR_MS
+};
+
+export const DEFAULT_CLEANING_CREWS = 2;
+
+// A fresh train arrives somewhere between just cleaned and a little overdue
+export function createCleaningRecord(now: number, random: () => number): Record<CleaningType, number> {
+  const record = {} as Record<CleaningType, number>;
+  CLEANING_TYPES.forEach(type => {
+    record[type] = now - Math.floor(random() * CLEANING_INTERVAL_MS[type] * 1.2);
+  });
+  return record;
+}
+
+export function getCleaningDueAt(train: Train, type: CleaningType): number {
+  return train.lastCleaned[type] + CLEANING_INTERVAL_MS[type];
+}
+
+export function getOverdueCleaning(train: Train, at: number): CleaningType[] {
+  return CLEANING_TYPES.filter(type => getCleaningDueAt(train, type) <= at);
+}
+
+export function describeOverdue(train: Train, type: CleaningType, at: number): string {
+  const hours = Math.max(0, at - getCleaningDueAt(train, type)) / HOUR_MS;
+  const span = hours >= 1 ? `${Math.round(hours)}h` : `${Math.max(1, Math.round(hours * 60))}m`;
+  return `${CLEANING_LABELS[type]} overdue by ${span}`;
+}
@@ -0,0 +1,171 @@
+export type TimerId = number;
+
+// Next occurrence of a wall-clock "HH:MM" at or after `from`, rolling over midnight
+export function nextTimeOfDay(time: string, from: number): number | undefined {
+  const [hours, minutes] = time.split(':').map(Number);
+  if (isNaN(hours) || isNaN(minutes)) return undefined;
+
+  const target = new Date(from);
+  target.setHours(hours, minutes, 0, 0);
+  if (target.getTime() < from) {
+    target.setDate(target.getDate() + 1);
+  }
+  return target.getTime();
+}
+
+interface ScheduledTimer {
+  id: TimerId;
+  dueAt: number; // virtual time
+  callback: () => void;
+}
+
+// Virtual time source for the simulator. While running it advances with the wall clock at
+// `rate` times real speed, while paused it stands still and nothing fires; resuming carries
+// on from the same instant. Rate changes apply at once to everything already scheduled.
+export class SimulationClock {
+  private time: number; // virtual time at the last sync
+  private syncedAt: number; // wall-clock time of the last sync
+  private paused = false;
+  private rate = 1;
+  private timers: ScheduledTimer[] = []; // ordered by due time, then by scheduling order
+  private nextId = 1;
+  private handle?: ReturnType<typeof setTimeout>;
+
+  // A clock created paused only moves when advanced, which keeps headless runs exact
+  constructor(startTime: number = Date.now(), paused = false) {
+    this.time = startTime;
+    this.syncedAt = Date.now();
+    this.paused = paused;
+  }
+
+  public now(): number {
+    if (this.paused) return this.time;
+    return this.time + (Date.now() - this.syncedAt) * this.rate;
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  public getRate(): number {
+    return this.rate;
+  }
+
+  public setRate(rate: number): void {
+    this.sync();
+    this.rate = rate;
+    this.arm();
+  }
+
+  // Due time of the earliest pending timer
+  public nextDueAt(): number | undefined {
+    return this.timers[0]?.dueAt;
+  }
+
+  // Jump straight to the earliest pending timer and fire everything due then
+  public advanceToNext(): boolean {
+    const dueAt = this.nextDueAt();
+    if (dueAt === undefined) return false;
+    this.advanceTo(dueAt);
+    return true;
+  }
+
+  // Fire every timer due up to `time` in order, each seeing its own due time as now,
+  // then leave the clock at `time`. Works whether or not the clock is paused.
+  public advanceTo(time: number): void {
+    this.disarm();
+    this.sync();
+
+    while (this.timers.length > 0 && this.timers[0].dueAt <= time) {
+      const timer = this.timers.shift()!;
+      this.time = Math.max(this.time, timer.dueAt);
+      this.syncedAt = Date.now();
+      timer.callback();
+    }
+
+    this.time = Math.max(this.time, time);
+    this.syncedAt = Date.now();
+    this.arm();
+  }
+
+  public schedule(callback: () => void, delayMs: number): TimerId {
+    const timer: ScheduledTimer = {
+      id: this.nextId++,
+      dueAt: this.now() + Math.max(0, delayMs),
+      callback
+    };
+
+    const index = this.timers.findIndex(other => other.dueAt > timer.dueAt);
+    if (index === -1) {
+      this.timers.push(timer);
+    } else {
+      this.timers.splice(index, 0, timer);
+    }
+
+    this.arm();
+    return timer.id;
+  }
+
+  public cancel(id: TimerId): void {
+    this.timers = this.timers.filter(timer => timer.id !== id);
+    this.arm();
+  }
+
+  // Drop everything scheduled; the clock itself keeps its time, rate and paused state
+  public clear(): void {
+    this.timers = [];
+    this.disarm();
+  }
+
+  public pause(): void {
+    if (this.paused) return;
+    this.sync();
+    this.paused = true;
+    this.disarm();
+  }
+
+  public resume(): void {
+    if (!this.paused) return;
+    this.syncedAt = Date.now();
+    this.paused = false;
+    this.arm();
+  }
+
+  private sync(): void {
+    this.time = this.now();
+    this.syncedAt = Date.now();
+  }
+
+  private disarm(): void {
+    if (this.handle !== undefined) {
+      clearTimeout(this.handle);
+      this.handle = undefined;
+    }
+  }
+
+  // Keep exactly one wall-clock timeout pending, for the earliest virtual timer
+  private arm(): void {
+    this.disarm();
+    if (this.paused || this.timers.length === 0) return;
+
+    const dueAt = this.timers[0].dueAt;
+    const delay = Math.max(0, (dueAt - this.now()) / this.rate);
+    this.handle = setTimeout(() => this.fireDue(dueAt), delay);
+  }
+
+  private fireDue(armedFor: number): void {
+    this.handle = undefined;
+    this.sync();
+    // The timeout firing means that moment has come, whatever rounding the rate introduced
+    this.time = Math.max(this.time, armedFor);
+
+    // Callbacks may schedule, cancel or pause; re-check the head each time round
+    while (!this.paused && this.timers.length > 0 && this.timers[0].dueAt <= this.time) {
+      const timer = this.timers.shift()!;
+      timer.callback();
+      this.sync();
+    }
+
+    this.arm();
+  }
+}
@@ -0,0 +1,161 @@
+import {
+  YardDefinition,
+  YardEvent,
+  ScheduledArrival,
+  ComparisonConfig,
+  ComparisonKpis,
+  ComparisonResult,
+  ComparisonRun,
+  ComparisonVariant
+} from '@/types/yard';
+import { YardSimulator, DEPARTURE_MARGIN_MS } from '@/lib/simulator';
+import { createRandom } from '@/lib/random';
+import { createCertificates } from '@/lib/certificates';
+import { createCleaningRecord } from '@/lib/cleaning';
+import { DEFAULT_POLICY_ID } from '@/lib/scoring';
+
+export const DEFAULT_COMPARISON_ARRIVALS = 8;
+export const DEFAULT_ARRIVAL_INTERVAL_MS = 20 * 60 * 1000;
+
+const RUN_ON_MS = 60 * 60 * 1000; // kept running past the last departure or arrival
+const FAILURE_CHANCE = 0.2;
+const FAILURES = ['brake', 'door', 'hvac', 'wheel-alignment'];
+
+// One arrival list for both runs, drawn from its own generator so the runs can't disturb it
+export function generateArrivals(seed: number, count: number, intervalMs: number, startTime: number): ScheduledArrival[] {
+  const random = createRandom(seed);
+  const arrivals: ScheduledArrival[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const arrivesAt = startTime + Math.round((i + 0.5 + (random() - 0.5) * 0.8) * intervalMs);
+    arrivals.push({
+      arrivesAt,
+      train: {
+        fitness: 40 + Math.floor(random() * 60),
+        mileage: Math.floor(random() * 50000),
+        certificates: createCertificates(arrivesAt, random),
+        lastCleaned: createCleaningRecord(arrivesAt, random),
+        failures: random() < FAILURE_CHANCE ? [FAILURES[Math.floor(random() * FAILURES.length)]] : [],
+        priority: random() < 0.15,
+        departSoon: random() < 0.5
+      }
+    });
+  }
+  return arrivals;
+}
+
+// Everything a single run needs; the variant to run is passed on its own
+type RunConfig = Omit<ComparisonConfig, 'variants'>;
+
+function createVariantSimulator(
+  definition: YardDefinition,
+  config: RunConfig,
+  variant: ComparisonVariant,
+  listener?: (event: YardEvent) => void
+): YardSimulator {
+  const simulator = new YardSimulator(definition, {
+    startTime: config.startTime,
+    seed: config.seed,
+    manualClock: true,
+    autoAccept: true
+  });
+  // Listening from the start, so the reset and setting changes are heard too
+  if (listener) simulator.addEventListener(listener);
+  config.strategies?.forEach(strategy => simulator.registerStrategy(strategy));
+  // The run's seed wins over one written into a scenario file
+  simulator.reset(config.scenario, config.seed);
+
+  if (variant.policy.id !== DEFAULT_POLICY_ID) {
+    simulator.saveScoringPolicy(variant.policy);
+    simulator.selectScoringPolicy(variant.policy.id);
+  }
+  simulator.selectStrategy(variant.strategyId);
+  return simulator;
+}
+
+export function runVariant(
+  definition: YardDefinition,
+  config: RunConfig,
+  arrivals: ScheduledArrival[],
+  variant: ComparisonVariant,
+  listener?: (event: YardEvent) => void
+): ComparisonRun {
+  const simulator = createVariantSimulator(definition, config, variant, listener);
+  const bayCount = Object.keys(simulator.getState().inspectionBays).length;
+
+  const createdAt: Record<string, number> = {};
+  const parkTimes: number[] = [];
+  const blocked = new Set<string>();
+  let shuntMoves = 0;
+  let occupiedBayMs = 0;
+  let occupiedBays = 0;
+  let sampledAt = config.startTime;
+
+  // Bay occupancy only changes on events, so integrating between them is exact enough
+  const record = (event: YardEvent) => {
+    const state = simulator.getState();
+    occupiedBayMs += occupiedBays * (event.timestamp - sampledAt);
+    sampledAt = event.timestamp;
+    occupiedBays = Object.values(state.inspectionBays).filter(bay => bay.occupiedBy).length;
+
+    if (event.type === 'train:created' && event.trainId) {
+      createdAt[event.trainId] = event.timestamp;
+    }
+    if (event.data?.shuntPlanId) {
+      shuntMoves++;
+      if (event.trainId) blocked.add(event.trainId);
+    }
+
+    // First time each arrival reaches a siding
+    Object.keys(createdAt).forEach(trainId => {
+      if (state.trains[trainId]?.status === 'parked') {
+        parkTimes.push(event.timestamp - createdAt[trainId]);
+        delete createdAt[trainId];
+      }
+    });
+  };
+  simulator.addEventListener(record);
+
+  simulator.announceArrivals(arrivals);
+  arrivals.forEach(arrival => {
+    simulator.runUntil(arrival.arrivesAt);
+    simulator.enqueueTrain(arrival.train);
+  });
+
+  const lastDeparture = Math.max(...Object.values(simulator.getState().departures).map(departure => departure.departureTime));
+  const lastArrival = arrivals.length > 0 ? arrivals[arrivals.length - 1].arrivesAt : config.startTime;
+  const endTime = Math.max(lastDeparture, lastArrival) + RUN_ON_MS;
+  simulator.runUntil(endTime);
+  simulator.removeEventListener(record);
+  if (listener) simulator.removeEventListener(listener);
+  occupiedBayMs += occupiedBays * (endTime - sampledAt);
+
+  const departures = Object.values(simulator.getState().departures);
+  const kpis: ComparisonKpis = {
+    shuntMoves,
+    averageTimeToParkMs: parkTimes.length > 0 ? parkTimes.reduce((sum, ms) => sum + ms, 0) / parkTimes.length : 0,
+    parkedArrivals: parkTimes.length,
+    blockedDepartures: blocked.size,
+    bayUtilisation: bayCount > 0 ? (occupiedBayMs / (bayCount * (endTime - config.startTime))) * 100 : 0,
+    // Services nobody was booked on are the same in both runs, so only booked trains count
+    lateDispatches: departures.filter(departure => departure.trainId && (
+      departure.status === 'missed' || (departure.lateByMs || 0) > DEPARTURE_MARGIN_MS
+    )).length
+  };
+
+  return { variant, kpis, endTime };
+}
+
+// Run both variants over the same arrivals and seed, one after the other
+export function runComparison(definition: YardDefinition, config: ComparisonConfig): ComparisonResult {
+  const arrivals = generateArrivals(config.seed, config.arrivals, config.arrivalIntervalMs, config.startTime);
+  const { seed, scenario, startTime, arrivalIntervalMs, variants } = config;
+
+  return {
+    config: { seed, scenario, startTime, arrivals: config.arrivals, arrivalIntervalMs, variants },
+    runs: [
+      runVariant(definition, config, arrivals, variants[0]),
+      runVariant(definition, config, arrivals, variants[1])
+    ]
+  };
+}
@@ -0,0 +1,23 @@
+// Runs comparisons away from the live simulator's worker; see SimulatorClient for the other side
+import { ComparisonRequest, ComparisonResponse } from '@/types/yard';
+import { runComparison } from '@/lib/comparison';
+
+// The app is built against the DOM types, so describe just the worker scope used here
+const scope = self as unknown as {
+  postMessage: (message: ComparisonResponse) => void;
+  onmessage: ((event: MessageEvent<ComparisonRequest>) => void) | null;
+};
+
+// Each run builds its own simulators, which come with the built-in strategies
+scope.onmessage = (event) => {
+  const { requestId, definition, config } = event.data;
+  try {
+    scope.postMessage({ type: 'comparison', requestId, result: runComparison(definition, config) });
+  } catch (error) {
+    scope.postMessage({
+      type: 'error',
+      requestId,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
@@ -0,0 +1,152 @@
+import {
+  YardDefinition,
+  YardEvent,
+  YardScenario,
+  ScenarioDefinition,
+  ComparisonKpis,
+  SweepDefinition,
+  HeadlessRun,
+  HeadlessResult,
+  HeadlessSummary
+} from '@/types/yard';
+import { runVariant, generateArrivals, DEFAULT_COMPARISON_ARRIVALS, DEFAULT_ARRIVAL_INTERVAL_MS } from '@/lib/comparison';
+import { nextTimeOfDay } from '@/lib/clock';
+import { DEFAULT_SCORING_POLICY } from '@/lib/scoring';
+import { DEFAULT_STRATEGY_ID } from '@/lib/strategies';
+
+// A fixed evening, given in UTC, so the same sweep gives the same results whatever day it
+// is run and wherever
+export const DEFAULT_HEADLESS_START = '2025-01-06T21:00Z';
+
+export const DEFAULT_SWEEP: SweepDefinition = {
+  scenarios: ['empty'],
+  seeds: [1],
+  strategies: [DEFAULT_STRATEGY_ID],
+  policies: [DEFAULT_SCORING_POLICY],
+  arrivals: [DEFAULT_COMPARISON_ARRIVALS],
+  arrivalIntervalMs: DEFAULT_ARRIVAL_INTERVAL_MS,
+  startTime: new Date(DEFAULT_HEADLESS_START).getTime()
+};
+
+const KPI_COLUMNS: (keyof ComparisonKpis)[] = [
+  'shuntMoves',
+  'averageTimeToParkMs',
+  'parkedArrivals',
+  'blockedDepartures',
+  'bayUtilisation',
+  'lateDispatches'
+];
+
+export function getScenarioId(scenario: YardScenario | ScenarioDefinition): string {
+  return typeof scenario === 'object' ? scenario.id : scenario;
+}
+
+// Every combination of the sweep's lists, scenario outermost
+export function expandSweep(sweep: SweepDefinition): HeadlessRun[] {
+  const runs: HeadlessRun[] = [];
+  sweep.scenarios.forEach(scenario => {
+    sweep.strategies.forEach(strategyId => {
+      sweep.policies.forEach(policy => {
+        sweep.arrivals.forEach(arrivals => {
+          sweep.seeds.forEach(seed => {
+            runs.push({
+              id: `${getScenarioId(scenario)}_${strategyId}_${policy.id}_a${arrivals}_s${seed}`,
+              scenario,
+              seed,
+              strategyId,
+              policy,
+              arrivals,
+              arrivalIntervalMs: sweep.arrivalIntervalMs,
+              startTime: sweep.startTime
+            });
+          });
+        });
+      });
+    });
+  });
+  return runs;
+}
+
+// One run on virtual time, as fast as the machine allows
+export function runHeadless(definition: YardDefinition, run: HeadlessRun): HeadlessResult {
+  // A scenario file starts at its own time of day, so generated arrivals start with it
+  const file = typeof run.scenario === 'object' ? run.scenario : undefined;
+  const startTime = (file?.startTime && nextTimeOfDay(file.startTime, run.startTime)) || run.startTime;
+  const config = {
+    seed: run.seed,
+    scenario: run.scenario,
+    startTime,
+    arrivals: run.arrivals,
+    arrivalIntervalMs: run.arrivalIntervalMs
+  };
+
+  const events: YardEvent[] = [];
+  const arrivals = generateArrivals(run.seed, run.arrivals, run.arrivalIntervalMs, startTime);
+  const { kpis, endTime } = runVariant(
+    definition,
+    config,
+    arrivals,
+    { label: run.id, strategyId: run.strategyId, policy: run.policy },
+    // Event data can hold live trains and plans, so keep them as they were at the time
+    event => events.push(JSON.parse(JSON.stringify(event)))
+  );
+
+  return { run, kpis, startTime, endTime, events };
+}
+
+function toCsvField(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: (string | number | undefined)[][]): string {
+  return [header, ...rows].map(row => row.map(toCsvField).join(',')).join('\n') + '\n';
+}
+
+export function eventsToCsv(events: YardEvent[]): string {
+  return toCsv(
+    ['id', 'time', 'type', 'severity', 'trainId', 'message', 'data'],
+    events.map(event => [
+      event.id,
+      new Date(event.timestamp).toISOString(),
+      event.type,
+      event.severity,
+      event.trainId,
+      event.message,
+      event.data ? JSON.stringify(event.data) : undefined
+    ])
+  );
+}
+
+// One row per run: what was run, then its KPIs
+export function summarizeRun({ run, kpis, startTime, endTime }: HeadlessResult): HeadlessSummary {
+  return {
+    id: run.id,
+    scenario: getScenarioId(run.scenario),
+    seed: run.seed,
+    strategy: run.strategyId,
+    policy: run.policy.id,
+    arrivals: run.arrivals,
+    startTime: new Date(startTime).toISOString(),
+    endTime: new Date(endTime).toISOString(),
+    kpis
+  };
+}
+
+export function summaryToCsv(results: HeadlessSummary[]): string {
+  return toCsv(
+    ['id', 'scenario', 'seed', 'strategy', 'policy', 'arrivals', 'startTime', 'endTime', ...KPI_COLUMNS],
+    results.map(result => [
+      result.id,
+      result.scenario,
+      result.seed,
+      result.strategy,
+      result.policy,
+      result.arrivals,
+      result.startTime,
+      result.endTime,
+      ...KPI_COLUMNS.map(column => Math.round(result.kpis[column] * 100) / 100)
+    ])
+  );
+}
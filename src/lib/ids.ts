@@ -0,0 +1,18 @@
+// Counter-based ids, so a replayed run hands out the same ids in the same order
+export class IdSequence {
+  private counters: Record<string, number> = {};
+
+  // Skips any id already in `taken`, for records that outlive a reset or were named up front
+  public next(prefix: string, taken: Record<string, unknown> = {}): string {
+    let id: string;
+    do {
+      this.counters[prefix] = (this.counters[prefix] || 0) + 1;
+      id = `${prefix}_${this.counters[prefix]}`;
+    } while (id in taken);
+    return id;
+  }
+
+  public reset(): void {
+    this.counters = {};
+  }
+}
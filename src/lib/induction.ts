@@ -0,0 +1,167 @@
+import { YardState, Train, InductionPlan, InductionDecision } from '@/types/yard';
+import { describeExpiry, getExpiredCertificates } from '@/lib/certificates';
+import { describeBranding, getBrandingAdjustment } from '@/lib/branding';
+import { describeMileage, getFleetMileage, getMileageAdjustment, projectBalanceScore, shouldRest } from '@/lib/mileage';
+
+export const MIN_SERVICE_FITNESS = 70;
+
+interface Assessment {
+  train: Train;
+  score: number;
+  reasons: string[];
+  holdReasons: string[];
+  exitOrder: number; // 0 leaves without help, higher needs more yard work first
+}
+
+// Ranks the fleet for the next morning: the strongest trains take the timetabled services,
+// the rest of the fit ones stand by and anything with open work is held back
+export class InductionPlanner {
+  public plan(state: YardState, createdAt: number): InductionPlan {
+    const trains = Object.values(state.trains).filter(train => train.status !== 'departed');
+    const departures = Object.values(state.departures)
+      .filter(departure => departure.status === 'planned')
+      .sort((a, b) => a.departureTime - b.departureTime);
+
+    const fleetMileage = getFleetMileage(trains);
+    const averageMileage = fleetMileage.average;
+
+    // Certificates have to hold until the first train leaves
+    const serviceStart = departures[0]?.departureTime ?? createdAt;
+
+    const assessments = trains
+      .map(train => this.assess(train, state, averageMileage, createdAt, serviceStart))
+      .sort((a, b) => b.score - a.score);
+    const rankOf = new Map(assessments.map((assessment, index) => [assessment.train.id, index + 1]));
+
+    const eligible = assessments.filter(assessment => assessment.holdReasons.length === 0);
+    const service = eligible.slice(0, departures.length);
+    const standby = eligible.slice(departures.length);
+    const hold = assessments.filter(assessment => assessment.holdReasons.length > 0);
+
+    // Whoever is easiest to get out takes the earliest service, so nobody waits behind a later train
+    const serviceOrder = [...service].sort((a, b) => a.exitOrder - b.exitOrder || b.score - a.score);
+
+    const decisions: InductionDecision[] = [
+      ...serviceOrder.map((assessment, index) => {
+        const departure = departures[index];
+        return this.decide(assessment, 'service', rankOf, [
+          `Takes ${departure.serviceName} at ${new Date(departure.departureTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+        ], departure.id);
+      }),
+      ...standby.map(assessment => this.decide(assessment, 'standby', rankOf, [
+        departures.length === 0
+          ? 'No services in the timetable'
+          : shouldRest(assessment.train, averageMileage)
+            ? 'Rested to even out fleet mileage'
+            : 'Fit for service but all services are covered'
+      ])),
+      ...hold.map(assessment => this.decide(assessment, 'hold', rankOf, assessment.holdReasons))
+    ];
+
+    return {
+      id: `induction_${createdAt}`,
+      createdAt,
+      decisions,
+      mileageBalance: {
+        current: fleetMileage.balanceScore,
+        projected: projectBalanceScore(trains, service.map(assessment => assessment.train.id))
+      },
+      status: 'proposed'
+    };
+  }
+
+  private decide(
+    assessment: Assessment,
+    decision: InductionDecision['decision'],
+    rankOf: Map<string, number>,
+    leadReasons: string[],
+    departureId?: string
+  ): InductionDecision {
+    return {
+      trainId: assessment.train.id,
+      decision,
+      rank: rankOf.get(assessment.train.id) || 0,
+      score: Math.round(assessment.score),
+      reasons: [...leadReasons, ...assessment.reasons],
+      departureId
+    };
+  }
+
+  private assess(train: Train, state: YardState, averageMileage: number, now: number, serviceStart: number): Assessment {
+    const reasons: string[] = [];
+    const holdReasons: string[] = [];
+
+    getExpiredCertificates(train, Math.max(now, serviceStart)).forEach(certificate => {
+      holdReasons.push(certificate.expiresAt > now
+        ? `${describeExpiry(certificate, now)} - lapses before service`
+        : describeExpiry(certificate, now));
+    });
+
+    // Fitness carries most of the weight
+    let score = train.fitness * 0.6;
+    if (train.fitness < MIN_SERVICE_FITNESS) {
+      holdReasons.push(`Fitness ${train.fitness}% below the ${MIN_SERVICE_FITNESS}% service minimum`);
+    } else {
+      reasons.push(`Fitness ${train.fitness}%`);
+    }
+
+    if (train.failures.length > 0) {
+      holdReasons.push(`Open failures: ${train.failures.join(', ')}`);
+    }
+
+    const tasks = train.jobCard.tasks;
+    const openTasks = tasks.filter(task => !task.done).length;
+    if (openTasks > 0) {
+      holdReasons.push(`${openTasks} of ${tasks.length} job-card task(s) still open`);
+    } else if (tasks.length > 0) {
+      score += 5;
+      reasons.push(`Job card complete (${tasks.length} task(s))`);
+    }
+
+    if (train.status === 'workshop') {
+      holdReasons.push('In the workshop');
+    }
+
+    // Run the low-mileage trains, rest the high-mileage ones
+    score += getMileageAdjustment(train, averageMileage);
+    const mileageReason = describeMileage(train, averageMileage);
+    if (mileageReason) reasons.push(mileageReason);
+
+    // Wrapped trains running short of their contracted hours get out first
+    const contracts = Object.values(state.brandingContracts);
+    score += getBrandingAdjustment(train, contracts, now);
+    const brandingReason = describeBranding(train, contracts, now);
+    if (brandingReason) reasons.push(brandingReason);
+
+    // Where the train stands decides how easily it gets out in the morning
+    let exitOrder = 3;
+    const slot = state.sidingSlots[train.locationNodeId];
+    if (train.status === 'parked' && slot) {
+      const front = Object.values(state.sidingSlots)
+        .find(other => other.sidingId === slot.sidingId && other.slot === 'a');
+      const blocker = slot.slot === 'b' && front?.occupiedBy && front.occupiedBy !== train.id
+        ? state.trains[front.occupiedBy]
+        : undefined;
+
+      if (slot.slot === 'a') {
+        score += 10;
+        exitOrder = 0;
+        reasons.push(`Front of ${slot.sidingId} - leaves without shunting`);
+      } else if (blocker) {
+        score -= 15;
+        exitOrder = 2;
+        reasons.push(`Behind ${blocker.number} in ${slot.sidingId} - needs a shunt`);
+      } else {
+        exitOrder = 1;
+        reasons.push(`Rear of ${slot.sidingId} with the front clear`);
+      }
+    } else if (train.status === 'parked' || train.status === 'test') {
+      exitOrder = 1;
+    } else if (train.status !== 'workshop') {
+      score -= 10;
+      reasons.push(`Not stabled yet (${train.status})`);
+    }
+
+    return { train, score, reasons, holdReasons, exitOrder };
+  }
+}
@@ -0,0 +1,63 @@
+import { Train } from '@/types/yard';
+
+export const SERVICE_DAY_KM = 420; // a full day in revenue service
+export const TEST_RUN_KM = 12; // one run up and down the test track
+
+const MILEAGE_WEIGHT = 30; // score swing for running 100% above/below the fleet average
+const MAX_MILEAGE_ADJUSTMENT = 15;
+const REST_THRESHOLD = 0.1; // this far above the average a unit should rest if it can
+
+export interface FleetMileage {
+  average: number;
+  min: number;
+  max: number;
+  balanceScore: number; // 100 when every unit has run the same distance
+}
+
+export function getFleetMileage(trains: Train[]): FleetMileage {
+  const mileages = trains.map(train => train.mileage);
+  if (mileages.length === 0) return { average: 0, min: 0, max: 0, balanceScore: 100 };
+
+  const average = mileages.reduce((sum, mileage) => sum + mileage, 0) / mileages.length;
+  const variance = mileages.reduce((sum, mileage) => sum + (mileage - average) ** 2, 0) / mileages.length;
+  const spread = average > 0 ? Math.sqrt(variance) / average : 0;
+
+  return {
+    average,
+    min: Math.min(...mileages),
+    max: Math.max(...mileages),
+    balanceScore: Math.round(Math.max(0, 100 * (1 - spread)))
+  };
+}
+
+// Fraction above (+) or below (-) the fleet average
+export function getRelativeMileage(train: Train, average: number): number {
+  return average > 0 ? (train.mileage - average) / average : 0;
+}
+
+// Positive for units that should run, negative for units that should rest
+export function getMileageAdjustment(train: Train, average: number): number {
+  const relative = getRelativeMileage(train, average);
+  return Math.max(-MAX_MILEAGE_ADJUSTMENT, Math.min(MAX_MILEAGE_ADJUSTMENT, -relative * MILEAGE_WEIGHT));
+}
+
+export function shouldRest(train: Train, average: number): boolean {
+  return getRelativeMileage(train, average) >= REST_THRESHOLD;
+}
+
+export function describeMileage(train: Train, average: number): string | undefined {
+  const relative = getRelativeMileage(train, average);
+  if (Math.abs(relative) < 0.05) return undefined;
+  return relative < 0
+    ? `Mileage ${Math.round(-relative * 100)}% below fleet average`
+    : `Mileage ${Math.round(relative * 100)}% above fleet average`;
+}
+
+// Balance score if the given units each ran a service day
+export function projectBalanceScore(trains: Train[], runningIds: string[]): number {
+  const running = new Set(runningIds);
+  return getFleetMileage(trains.map(train => running.has(train.id)
+    ? { ...train, mileage: train.mileage + SERVICE_DAY_KM }
+    : train
+  )).balanceScore;
+}
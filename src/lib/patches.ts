@@ -0,0 +1,105 @@
+import { YardState, YardEvent, StatePatch, RecordPatch, RecordStateKey } from '@/types/yard';
+
+export const RECORD_STATE_KEYS: RecordStateKey[] = [
+  'trains',
+  'inspectionBays',
+  'workshopLines',
+  'sidingSlots',
+  'switches',
+  'departures',
+  'brandingContracts',
+  'cleaningJobs',
+  'scoringPolicies',
+  'recommendationStrategies',
+  'activePlans'
+];
+
+function serialize(value: unknown): string {
+  return JSON.stringify(value instanceof Set ? [...value].sort() : value ?? null);
+}
+
+// Works out what changed between snapshots of a live state. The simulator changes its state
+// in place, so earlier snapshots are kept as JSON rather than as object references.
+export class StatePatcher {
+  private records: Partial<Record<RecordStateKey, Record<string, string>>> = {};
+  private values: Record<string, string> = {};
+  private eventLog: YardEvent[] = [];
+  private eventCount = 0;
+
+  // Take the state the other side already has as the starting point
+  public prime(state: YardState): void {
+    this.diff(state);
+  }
+
+  public diff(state: YardState): StatePatch | null {
+    const patch: StatePatch = {};
+    let changed = false;
+
+    RECORD_STATE_KEYS.forEach(key => {
+      const entries = state[key] as Record<string, unknown>;
+      const previous = this.records[key] || {};
+      const current: Record<string, string> = {};
+      const change: RecordPatch<unknown> = {};
+
+      Object.keys(entries).forEach(id => {
+        current[id] = serialize(entries[id]);
+        if (current[id] !== previous[id]) {
+          change.set = { ...change.set, [id]: entries[id] };
+        }
+      });
+      const removed = Object.keys(previous).filter(id => !(id in current));
+      if (removed.length > 0) change.removed = removed;
+
+      this.records[key] = current;
+      if (change.set || change.removed) {
+        patch.records = { ...patch.records, [key]: change };
+        changed = true;
+      }
+    });
+
+    Object.keys(state).forEach(key => {
+      if (key === 'eventLog' || RECORD_STATE_KEYS.includes(key as RecordStateKey)) return;
+      const value = serialize(state[key as keyof YardState]);
+      if (value === this.values[key]) return;
+      this.values[key] = value;
+      patch.values = { ...patch.values, [key]: state[key as keyof YardState] };
+      changed = true;
+    });
+
+    // The log only grows until a reset starts a new one
+    if (state.eventLog !== this.eventLog) {
+      patch.eventLog = state.eventLog;
+      changed = true;
+    } else if (state.eventLog.length > this.eventCount) {
+      patch.events = state.eventLog.slice(this.eventCount);
+      changed = true;
+    }
+    this.eventLog = state.eventLog;
+    this.eventCount = state.eventLog.length;
+
+    return changed ? patch : null;
+  }
+}
+
+// New state with the patch applied; anything the patch leaves alone keeps its identity
+export function applyStatePatch(state: YardState, patch: StatePatch): YardState {
+  const next: YardState = { ...state, ...patch.values };
+
+  Object.entries(patch.records || {}).forEach(([key, change]: [string, RecordPatch<unknown>]) => {
+    const entries: Record<string, unknown> = { ...state[key as RecordStateKey], ...change.set };
+    change.removed?.forEach(id => delete entries[id]);
+    (next as unknown as Record<string, unknown>)[key] = entries;
+  });
+
+  if (patch.eventLog) {
+    next.eventLog = patch.eventLog;
+  } else if (patch.events) {
+    next.eventLog = [...state.eventLog, ...patch.events];
+  }
+  return next;
+}
+
+// Events a patch brings, whether appended or as the start of a new log
+export function getPatchEvents(patch: StatePatch): YardEvent[] {
+  return patch.events || patch.eventLog || [];
+}
@@ -0,0 +1,254 @@
+import { YardDefinition, Plan, PlanStep, Route, SwitchState } from '@/types/yard';
+import { YardRouter, RouteOptions, switchLockId, getSwitchLeg } from '@/lib/routing';
+import { SimulationClock } from '@/lib/clock';
+import { IdSequence } from '@/lib/ids';
+
+export const SWITCH_THROW_MS = 3000; // time to throw and detect a switch
+export const REVERSAL_TIME_MS = 60000; // driver changing ends
+export const RESERVE_TIME_MS = 500; // interlocking setting up the route
+const REVERSAL_COST = 200; // planning cost of a change of direction, px-equivalent
+
+type Heading = 'east' | 'west';
+
+interface Leg {
+  route: Route;
+  reversesAtStart: boolean;
+}
+
+export interface PlanOptions extends RouteOptions {
+  switches?: Record<string, SwitchState>; // current switch positions; unknown switches are always thrown
+}
+
+export class MovePlanner {
+  private definition: YardDefinition;
+  private router: YardRouter;
+  private clock: SimulationClock;
+  private ids: IdSequence;
+
+  constructor(definition: YardDefinition, router: YardRouter, clock: SimulationClock, ids: IdSequence) {
+    this.definition = definition;
+    this.router = router;
+    this.clock = clock;
+    this.ids = ids;
+  }
+
+  // Direction of travel for a hop; vertical hops keep the previous heading
+  private headingOf(from: string, to: string, previous?: Heading): Heading | undefined {
+    const dx = this.definition.nodes[to].x - this.definition.nodes[from].x;
+    if (dx > 0) return 'east';
+    if (dx < 0) return 'west';
+    return previous;
+  }
+
+  // Intermediate nodes where the route changes direction, i.e. needs a reversal
+  public findReversals(nodes: string[]): string[] {
+    const reversals: string[] = [];
+    let heading: Heading | undefined;
+
+    for (let i = 0; i < nodes.length - 1; i++) {
+      const next = this.headingOf(nodes[i], nodes[i + 1], heading);
+      if (heading && next && next !== heading) {
+        reversals.push(nodes[i]);
+      }
+      heading = next;
+    }
+
+    return reversals;
+  }
+
+  // A direct route that has to reverse on running lines is replaced by a run into a
+  // shunting neck, a reversal there and a run out to the target
+  private planLegs(fromNodeId: string, toNodeId: string, options: RouteOptions): Leg[] | null {
+    const direct = this.router.findRoute(fromNodeId, toNodeId, options);
+    if (!direct) return null;
+
+    if (this.findReversals(direct.nodes).length === 0) {
+      return [{ route: direct, reversesAtStart: false }];
+    }
+
+    let best: Leg[] | null = null;
+    let bestCost = Infinity;
+
+    this.definition.shuntingNecks.forEach(neckId => {
+      if (options.avoidNodes?.has(neckId)) return;
+
+      const inbound = this.router.findRoute(fromNodeId, neckId, options);
+      const outbound = this.router.findRoute(neckId, toNodeId, options);
+      if (!inbound || !outbound) return;
+      if (this.findReversals(inbound.nodes).length > 0 || this.findReversals(outbound.nodes).length > 0) return;
+
+      const cost = inbound.cost + outbound.cost + REVERSAL_COST;
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = [
+          { route: inbound, reversesAtStart: false },
+          { route: outbound, reversesAtStart: true }
+        ];
+      }
+    });
+
+    return best || [{ route: direct, reversesAtStart: false }];
+  }
+
+  public planMove(trainId: string, fromNodeId: string, toNodeId: string, options: PlanOptions = {}): Plan | null {
+    const legs = this.planLegs(fromNodeId, toNodeId, options);
+    if (!legs) return null;
+
+    const planId = this.ids.next('plan');
+    const steps: PlanStep[] = [];
+    const warnings: string[] = [];
+    const requiredLocks = [...new Set(legs.flatMap(leg => this.segmentsOf(leg.route.nodes)))];
+
+    // Positions as they will be once earlier legs have thrown their switches
+    const positions: Record<string, string | undefined> = {};
+    Object.values(options.switches || {}).forEach(sw => {
+      positions[sw.nodeId] = sw.position;
+    });
+
+    const addStep = (step: Omit<PlanStep, 'id'>) => {
+      steps.push({ ...step, id: `${planId}_step${steps.length + 1}` });
+    };
+
+    addStep({
+      description: `Reserve ${requiredLocks.length} segment(s) from ${this.labelOf(fromNodeId)} to ${this.labelOf(toNodeId)}`,
+      segments: requiredLocks,
+      type: 'reserve',
+      durationMs: RESERVE_TIME_MS,
+      fromNode: fromNodeId,
+      toNode: toNodeId
+    });
+
+    // Each move runs from one control point (switch, neck or end of route) to the next
+    const moves: PlanStep[] = [];
+    legs.forEach(leg => {
+      const nodes = leg.route.nodes;
+
+      nodes.slice(1, -1).forEach((nodeId, i) => {
+        if (!this.router.isSwitch(nodeId)) return;
+
+        // Every switch gets a step so execution can check it once the route is locked;
+        // one already lying towards the leg this pass uses costs no time
+        const entry = nodes[i];
+        const exit = nodes[i + 2];
+        const leg = getSwitchLeg(this.router.getSwitchLegs(nodeId), entry, exit);
+        const aligned = !leg || positions[nodeId] === leg;
+        if (!aligned) {
+          positions[nodeId] = leg;
+        }
+
+        addStep({
+          description: aligned
+            ? `Check switch ${nodeId} lies towards ${this.labelOf(positions[nodeId])}`
+            : `Set switch ${nodeId} towards ${this.labelOf(leg)}`,
+          segments: [switchLockId(nodeId)],
+          type: 'switch',
+          durationMs: aligned ? 0 : options.switches?.[nodeId]?.throwTimeMs ?? SWITCH_THROW_MS,
+          fromNode: nodeId,
+          toNode: leg ?? exit,
+          path: [entry, nodeId, exit]
+        });
+      });
+
+      let sectionStart = 0;
+      for (let i = 1; i < nodes.length; i++) {
+        const isControlPoint = i === nodes.length - 1 || this.router.isSwitch(nodes[i]);
+        if (!isControlPoint) continue;
+
+        const path = nodes.slice(sectionStart, i + 1);
+        const reverses = leg.reversesAtStart && sectionStart === 0;
+        const move: Omit<PlanStep, 'id'> = {
+          description: reverses
+            ? `Reverse out of ${this.labelOf(path[0])} to ${this.labelOf(path[path.length - 1])}`
+            : `Move from ${this.labelOf(path[0])} to ${this.labelOf(path[path.length - 1])}`,
+          segments: this.segmentsOf(path),
+          type: 'move',
+          durationMs: Math.round(this.travelTimeOf(path)) + (reverses ? REVERSAL_TIME_MS : 0),
+          fromNode: path[0],
+          toNode: path[path.length - 1],
+          path
+        };
+        addStep(move);
+        moves.push(steps[steps.length - 1]);
+        sectionStart = i;
+      }
+    });
+
+    // Release track behind the train once no later move needs it
+    const withReleases: PlanStep[] = [];
+    steps.forEach(step => {
+      withReleases.push(step);
+      const moveIndex = moves.indexOf(step);
+      if (moveIndex === -1) return;
+
+      const stillNeeded = new Set(moves.slice(moveIndex + 1).flatMap(move => move.segments));
+      const cleared = step.segments.filter(segment => !stillNeeded.has(segment));
+      if (cleared.length === 0) return;
+
+      withReleases.push({
+        id: `${step.id}_release`,
+        description: `Release ${cleared.length} segment(s) behind ${this.labelOf(step.toNode)}`,
+        segments: cleared,
+        type: 'release',
+        durationMs: 0,
+        fromNode: step.fromNode,
+        toNode: step.toNode
+      });
+    });
+
+    const reversalNodes = this.findReversals(legs.flatMap((leg, i) => i === 0 ? leg.route.nodes : leg.route.nodes.slice(1)));
+    legs.forEach(leg => {
+      if (leg.reversesAtStart) {
+        warnings.push(`Reverses in ${this.labelOf(leg.route.nodes[0])} - adds ${REVERSAL_TIME_MS / 60000} min for change of ends`);
+      }
+    });
+    if (legs.length === 1 && reversalNodes.length > 0) {
+      warnings.push(`No shunting neck available - reverses on running line at ${reversalNodes.map(n => this.labelOf(n)).join(', ')}`);
+    }
+
+    const switchCount = legs.reduce((sum, leg) => sum + leg.route.switchCount, 0);
+    const cost = Math.round(
+      legs.reduce((sum, leg) => sum + leg.route.cost, 0) + reversalNodes.length * REVERSAL_COST
+    );
+
+    return {
+      id: planId,
+      trainId,
+      targetId: toNodeId,
+      steps: withReleases,
+      estimatedDuration: withReleases.reduce((sum, step) => sum + step.durationMs, 0),
+      requiredLocks,
+      warnings,
+      cost,
+      switchCount,
+      status: 'preview',
+      createdAt: this.clock.now()
+    };
+  }
+
+  // Track segments along the path plus every switch the train runs over or off
+  private segmentsOf(path: string[]): string[] {
+    const segments: string[] = [];
+    for (let i = 0; i < path.length - 1; i++) {
+      if (this.router.isSwitch(path[i])) {
+        segments.push(switchLockId(path[i]));
+      }
+      segments.push(...this.router.getSegments(path[i], path[i + 1]));
+    }
+    return segments;
+  }
+
+  private travelTimeOf(path: string[]): number {
+    let total = 0;
+    for (let i = 0; i < path.length - 1; i++) {
+      total += this.router.estimateHopTime(path[i], path[i + 1], i === path.length - 2);
+    }
+    return total;
+  }
+
+  // Track and switch labels repeat across the interchange, so those go by id
+  private labelOf(nodeId: string): string {
+    const node = this.definition.nodes[nodeId];
+    if (!node || node.type === 'switch' || node.type === 'track') return nodeId;
+    return node.label || nodeId;
+  }
+}
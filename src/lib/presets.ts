@@ -0,0 +1,44 @@
+import { StartingPlacement, StartingContract } from '@/types/yard';
+
+// A typical late-evening yard: the easy sidings filled first, one deep siding with a
+// train blocked in behind another, and one unit still under repair
+export const PRESET_OCCUPANCY: StartingPlacement[] = [
+  { nodeId: 'S12A', train: { number: 'T1', fitness: 92, mileage: 18400 } },
+  { nodeId: 'S11A', train: { number: 'T2', fitness: 88, mileage: 22150 } },
+  { nodeId: 'S10A', train: { number: 'T3', fitness: 95, mileage: 12900 } },
+  { nodeId: 'S9A', train: { number: 'T4', fitness: 81, mileage: 30600 } },
+  { nodeId: 'S6A', train: { number: 'T5', fitness: 77, mileage: 35200 } },
+  { nodeId: 'S2B', train: { number: 'T6', fitness: 90, mileage: 16800 } },
+  { nodeId: 'S2A', train: { number: 'T7', fitness: 84, mileage: 27300 } },
+  { nodeId: 'WL1', train: { number: 'T8', fitness: 58, mileage: 41900, failures: ['brake'] } }
+];
+
+// Morning services leaving through E2, every ten minutes from the start of revenue service
+export const DEFAULT_TIMETABLE: { serviceName: string; time: string; exitPointId: string }[] = [
+  { serviceName: 'Service 101', time: '05:45', exitPointId: 'E2' },
+  { serviceName: 'Service 102', time: '05:55', exitPointId: 'E2' },
+  { serviceName: 'Service 103', time: '06:05', exitPointId: 'E2' },
+  { serviceName: 'Service 104', time: '06:15', exitPointId: 'E2' },
+  { serviceName: 'Service 105', time: '06:25', exitPointId: 'E2' },
+  { serviceName: 'Service 106', time: '06:35', exitPointId: 'E2' }
+];
+
+// Two wrapped fleets part-way through their weekly periods: one well behind, one on track
+export const PRESET_BRANDING: StartingContract[] = [
+  {
+    advertiser: 'Aurora Telecom',
+    requiredHours: 180,
+    periodDays: 7,
+    trainNumbers: ['T2', 'T6'],
+    elapsedDays: 4,
+    exposureHours: { T2: 34, T6: 17 }
+  },
+  {
+    advertiser: 'Harbour Bank',
+    requiredHours: 120,
+    periodDays: 7,
+    trainNumbers: ['T4'],
+    elapsedDays: 2,
+    exposureHours: { T4: 40 }
+  }
+];
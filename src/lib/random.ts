@@ -0,0 +1,16 @@
+// Seeded generator (mulberry32) standing in for Math.random: the same seed gives the same sequence
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A fresh seed for runs nobody asked to reproduce; the only call left on Math.random
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x7fffffff);
+}
@@ -0,0 +1,106 @@
+export type LockEventType = 'lock:acquired' | 'lock:released';
+
+interface PendingReservation {
+  trainId: string;
+  segments: string[];
+  onGranted: () => void;
+}
+
+export class SegmentReservationManager {
+  private lockedSegments: Set<string>;
+  private owners: Record<string, string> = {}; // segment -> trainId
+  private pending: PendingReservation[] = [];
+  private onLockChange: (type: LockEventType, trainId: string, segments: string[]) => void;
+
+  constructor(
+    lockedSegments: Set<string>,
+    onLockChange: (type: LockEventType, trainId: string, segments: string[]) => void
+  ) {
+    this.lockedSegments = lockedSegments;
+    this.onLockChange = onLockChange;
+  }
+
+  public getOwner(segment: string): string | undefined {
+    return this.owners[segment];
+  }
+
+  public getHeldSegments(trainId: string): string[] {
+    return Object.keys(this.owners).filter(segment => this.owners[segment] === trainId);
+  }
+
+  // Segments in the list that are held by some other train
+  public getConflicts(trainId: string, segments: string[]): string[] {
+    return segments.filter(segment => this.owners[segment] && this.owners[segment] !== trainId);
+  }
+
+  public isWaiting(trainId: string): boolean {
+    return this.pending.some(request => request.trainId === trainId);
+  }
+
+  // All-or-nothing: either every segment is locked for the train or none are
+  public tryAcquire(trainId: string, segments: string[]): boolean {
+    if (this.getConflicts(trainId, segments).length > 0) return false;
+
+    const acquired = segments.filter(segment => this.owners[segment] !== trainId);
+    acquired.forEach(segment => {
+      this.owners[segment] = trainId;
+      this.lockedSegments.add(segment);
+    });
+
+    if (acquired.length > 0) {
+      this.onLockChange('lock:acquired', trainId, acquired);
+    }
+    return true;
+  }
+
+  // Acquire now if possible, otherwise wait in line until the conflicting locks are released
+  public request(trainId: string, segments: string[], onGranted: () => void): boolean {
+    // Earlier requests keep their place in the queue
+    const blockedByQueue = this.pending.some(request =>
+      request.trainId !== trainId && request.segments.some(segment => segments.includes(segment))
+    );
+
+    if (!blockedByQueue && this.tryAcquire(trainId, segments)) {
+      onGranted();
+      return true;
+    }
+
+    this.pending.push({ trainId, segments, onGranted });
+    return false;
+  }
+
+  public release(trainId: string, segments: string[] = this.getHeldSegments(trainId)): void {
+    const released = segments.filter(segment => this.owners[segment] === trainId);
+    if (released.length === 0) return;
+
+    released.forEach(segment => {
+      delete this.owners[segment];
+      this.lockedSegments.delete(segment);
+    });
+
+    this.onLockChange('lock:released', trainId, released);
+    this.processPending();
+  }
+
+  public cancel(trainId: string): void {
+    this.pending = this.pending.filter(request => request.trainId !== trainId);
+    this.release(trainId);
+  }
+
+  private processPending(): void {
+    const waiting = this.pending;
+    this.pending = [];
+
+    waiting.forEach(request => {
+      const blockedByQueue = this.pending.some(other =>
+        other.segments.some(segment => request.segments.includes(segment))
+      );
+
+      if (!blockedByQueue && this.tryAcquire(request.trainId, request.segments)) {
+        request.onGranted();
+      } else {
+        this.pending.push(request);
+      }
+    });
+  }
+}
@@ -0,0 +1,174 @@
+import { YardDefinition, Route } from '@/types/yard';
+
+interface Edge {
+  to: string;
+  length: number;
+  segments: string[];
+}
+
+export interface RouteOptions {
+  avoidNodes?: Set<string>; // nodes that may not be entered (e.g. occupied slots)
+}
+
+export const SWITCH_PENALTY = 40; // extra cost per switch crossed, in px-equivalent
+export const AVG_SPEED = 50; // pixels per second
+export const SWITCH_TIME_MS = 2000; // time lost slowing down over a switch
+
+// Canonical id for the track segment between two adjacent nodes
+export const segmentId = (a: string, b: string): string => [a, b].sort().join('--');
+
+// Lock id for a switch, reserved alongside the segments of any route through it
+export const switchLockId = (nodeId: string): string => `switch:${nodeId}`;
+
+// The leg a switch has to lie towards for a train passing entry -> switch -> exit. The trunk
+// is common to every leg, so it is never the one that matters; undefined when neither end is
+// a leg, as for a train starting out from the switch towards its trunk
+export function getSwitchLeg(legs: string[], entry: string | undefined, exit: string): string | undefined {
+  if (legs.includes(exit)) return exit;
+  return entry !== undefined && legs.includes(entry) ? entry : undefined;
+}
+
+export class YardRouter {
+  private definition: YardDefinition;
+  private adjacency: Record<string, Edge[]> = {};
+
+  constructor(definition: YardDefinition) {
+    this.definition = definition;
+    this.buildGraph();
+  }
+
+  private buildGraph(): void {
+    Object.keys(this.definition.nodes).forEach(nodeId => {
+      this.adjacency[nodeId] = [];
+    });
+
+    // Explicit connections carry segment ids and direction
+    this.definition.connections.forEach(connection => {
+      const segments = connection.segments?.length
+        ? connection.segments
+        : [segmentId(connection.from, connection.to)];
+      this.addEdge(connection.from, connection.to, segments);
+      if (connection.bidirectional !== false) {
+        this.addEdge(connection.to, connection.from, segments);
+      }
+    });
+
+    // Node-level connections fill in anything the connection list leaves out
+    Object.values(this.definition.nodes).forEach(node => {
+      node.connections.forEach(neighbourId => {
+        this.addEdge(node.id, neighbourId, [segmentId(node.id, neighbourId)]);
+      });
+    });
+  }
+
+  private addEdge(from: string, to: string, segments: string[]): void {
+    if (!this.adjacency[from] || !this.definition.nodes[to]) return;
+    if (this.adjacency[from].some(edge => edge.to === to)) return;
+
+    this.adjacency[from].push({
+      to,
+      length: this.nodeDistance(from, to),
+      segments
+    });
+  }
+
+  private nodeDistance(fromNodeId: string, toNodeId: string): number {
+    const fromNode = this.definition.nodes[fromNodeId];
+    const toNode = this.definition.nodes[toNodeId];
+    const dx = toNode.x - fromNode.x;
+    const dy = toNode.y - fromNode.y;
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+
+  public isSwitch(nodeId: string): boolean {
+    return this.definition.nodes[nodeId]?.type === 'switch';
+  }
+
+  public getNeighbours(nodeId: string): string[] {
+    return (this.adjacency[nodeId] || []).map(edge => edge.to);
+  }
+
+  // Every neighbour of a switch except its trunk. The connection list runs from the trunk into
+  // a switch that divides, and out of a switch that merges onto its trunk
+  public getSwitchLegs(nodeId: string): string[] {
+    const into = this.definition.connections.filter(c => c.to === nodeId).map(c => c.from);
+    const outOf = this.definition.connections.filter(c => c.from === nodeId).map(c => c.to);
+    const trunk = into.length === 1 ? into[0] : outOf.length === 1 ? outOf[0] : undefined;
+    return this.getNeighbours(nodeId).filter(neighbourId => neighbourId !== trunk);
+  }
+
+  public getSegments(from: string, to: string): string[] {
+    const edge = (this.adjacency[from] || []).find(e => e.to === to);
+    return edge ? edge.segments : [];
+  }
+
+  // Dijkstra over the track graph; edge cost is track length plus a penalty per switch entered
+  public findRoute(fromNodeId: string, toNodeId: string, options: RouteOptions = {}): Route | null {
+    if (!this.adjacency[fromNodeId] || !this.adjacency[toNodeId]) return null;
+
+    if (fromNodeId === toNodeId) {
+      return { nodes: [fromNodeId], segments: [], length: 0, switchCount: 0, cost: 0 };
+    }
+
+    const dist: Record<string, number> = { [fromNodeId]: 0 };
+    const previous: Record<string, string> = {};
+    const visited = new Set<string>();
+    const frontier = [fromNodeId];
+
+    while (frontier.length > 0) {
+      // Yard graphs are small, a linear scan beats maintaining a heap
+      frontier.sort((a, b) => dist[a] - dist[b]);
+      const current = frontier.shift()!;
+      if (visited.has(current)) continue;
+      visited.add(current);
+
+      if (current === toNodeId) break;
+
+      for (const edge of this.adjacency[current]) {
+        if (visited.has(edge.to)) continue;
+        if (edge.to !== toNodeId && options.avoidNodes?.has(edge.to)) continue;
+
+        const cost = dist[current] + edge.length + (this.isSwitch(edge.to) ? SWITCH_PENALTY : 0);
+        if (dist[edge.to] === undefined || cost < dist[edge.to]) {
+          dist[edge.to] = cost;
+          previous[edge.to] = current;
+          frontier.push(edge.to);
+        }
+      }
+    }
+
+    if (dist[toNodeId] === undefined) return null;
+
+    const nodes = [toNodeId];
+    while (nodes[0] !== fromNodeId) {
+      nodes.unshift(previous[nodes[0]]);
+    }
+
+    return this.describeRoute(nodes, dist[toNodeId]);
+  }
+
+  private describeRoute(nodes: string[], cost: number): Route {
+    const segments: string[] = [];
+    let length = 0;
+
+    for (let i = 0; i < nodes.length - 1; i++) {
+      segments.push(...this.getSegments(nodes[i], nodes[i + 1]));
+      length += this.nodeDistance(nodes[i], nodes[i + 1]);
+    }
+
+    // Endpoints are where the train stands, not switches it crosses
+    const switchCount = nodes.slice(1, -1).filter(nodeId => this.isSwitch(nodeId)).length;
+
+    return { nodes, segments, length, switchCount, cost };
+  }
+
+  // Time to run from one node to the next, slowing for a switch at the far end
+  public estimateHopTime(from: string, to: string, isLastHop = false): number {
+    const switchTime = !isLastHop && this.isSwitch(to) ? SWITCH_TIME_MS : 0;
+    return (this.nodeDistance(from, to) / AVG_SPEED) * 1000 + switchTime;
+  }
+
+  public estimateTravelTime(route: Route): number {
+    return (route.length / AVG_SPEED) * 1000 + route.switchCount * SWITCH_TIME_MS;
+  }
+}
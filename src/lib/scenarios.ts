@@ -0,0 +1,149 @@
+import { z } from 'zod';
+import { YardDefinition, ScenarioDefinition, ScenarioLibrary } from '@/types/yard';
+
+export const SCENARIO_INDEX_URL = '/scenarios/index.json';
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a time as HH:MM');
+const minute = z.number().min(0);
+
+const trainSchema = z.object({
+  number: z.string().min(1),
+  fitness: z.number().min(0).max(100).optional(),
+  mileage: z.number().min(0).optional(),
+  failures: z.array(z.string().min(1)).optional(),
+  priority: z.boolean().optional(),
+  departSoon: z.boolean().optional()
+}).strict();
+
+export const scenarioSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  seed: z.number().int().optional(),
+  startTime: timeOfDay.optional(),
+  occupancy: z.array(z.object({ nodeId: z.string(), train: trainSchema }).strict()).optional(),
+  arrivals: z.array(z.object({ atMinute: minute, train: trainSchema }).strict()).optional(),
+  failures: z.array(z.object({ atMinute: minute, trainNumber: z.string(), failure: z.string().min(1) }).strict()).optional(),
+  bayOutages: z.array(z.object({
+    atMinute: minute,
+    bayId: z.string(),
+    durationMinutes: z.number().positive(),
+    reason: z.string().optional()
+  }).strict()).optional(),
+  departures: z.array(z.object({
+    time: timeOfDay,
+    serviceName: z.string().optional(),
+    exitPointId: z.string().optional(),
+    trainNumber: z.string().optional()
+  }).strict()).optional()
+}).strict();
+
+// Things the schema can't see: ids that must exist in this yard, and trains the file refers to
+function checkReferences(scenario: ScenarioDefinition, definition: YardDefinition): string[] {
+  const problems: string[] = [];
+  const places = new Set([...definition.sidingSlots, ...definition.workshopLines]);
+  const trains = [
+    ...(scenario.occupancy || []).map((entry, index) => ({ path: `occupancy.${index}`, number: entry.train.number })),
+    ...(scenario.arrivals || []).map((entry, index) => ({ path: `arrivals.${index}`, number: entry.train.number }))
+  ];
+  const trainNumbers = new Set(trains.map(train => train.number));
+
+  // Failures and departures name trains by number, so each number may stand for one train only
+  trains.forEach((train, index) => {
+    if (trains.findIndex(other => other.number === train.number) !== index) {
+      problems.push(`${train.path}.train.number: ${train.number} is used twice`);
+    }
+  });
+
+  (scenario.occupancy || []).forEach((entry, index) => {
+    if (!places.has(entry.nodeId)) problems.push(`occupancy.${index}.nodeId: ${entry.nodeId} is not a siding slot or workshop line`);
+  });
+  const placed = (scenario.occupancy || []).map(entry => entry.nodeId);
+  placed.forEach((nodeId, index) => {
+    if (placed.indexOf(nodeId) !== index) problems.push(`occupancy.${index}.nodeId: ${nodeId} is used twice`);
+  });
+  (scenario.failures || []).forEach((entry, index) => {
+    if (!trainNumbers.has(entry.trainNumber)) problems.push(`failures.${index}.trainNumber: no train ${entry.trainNumber} in the scenario`);
+  });
+  (scenario.bayOutages || []).forEach((entry, index) => {
+    if (!definition.inspectionBays.includes(entry.bayId)) problems.push(`bayOutages.${index}.bayId: ${entry.bayId} is not an inspection bay`);
+  });
+  (scenario.departures || []).forEach((entry, index) => {
+    if (entry.exitPointId && !definition.exitPoints.includes(entry.exitPointId)) {
+      problems.push(`departures.${index}.exitPointId: ${entry.exitPointId} is not an exit`);
+    }
+    if (entry.trainNumber && !trainNumbers.has(entry.trainNumber)) {
+      problems.push(`departures.${index}.trainNumber: no train ${entry.trainNumber} in the scenario`);
+    }
+  });
+
+  return problems;
+}
+
+// Validate raw JSON as a scenario for this yard; throws with every problem found
+export function parseScenario(data: unknown, definition: YardDefinition): ScenarioDefinition {
+  const result = scenarioSchema.safeParse(data);
+  if (!result.success) {
+    const problems = result.error.issues.map(issue => `${issue.path.join('.') || 'scenario'}: ${issue.message}`);
+    throw new Error(`Invalid scenario - ${problems.join('; ')}`);
+  }
+
+  // Without strict null checks zod reports every field as optional, so name the shape here
+  const scenario = result.data as ScenarioDefinition;
+  const problems = checkReferences(scenario, definition);
+  if (problems.length > 0) {
+    throw new Error(`Invalid scenario "${scenario.name}" - ${problems.join('; ')}`);
+  }
+  return scenario;
+}
+
+export async function fetchScenario(url: string, definition: YardDefinition): Promise<ScenarioDefinition> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load scenario ${url}`);
+  }
+  return parseScenario(await response.json(), definition);
+}
+
+// Scenarios shipped with the app, listed by file name in the index. A bad file is reported
+// on its own rather than taking the rest of the library down with it
+export async function fetchScenarioLibrary(definition: YardDefinition): Promise<ScenarioLibrary> {
+  const response = await fetch(SCENARIO_INDEX_URL);
+  if (!response.ok) {
+    throw new Error('Failed to load scenario list');
+  }
+  const files: string[] = await response.json();
+  const results = await Promise.allSettled(files.map(file => fetchScenario(`/scenarios/${file}`, definition)));
+
+  const library: ScenarioLibrary = { scenarios: [], failures: [] };
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      library.scenarios.push(result.value);
+    } else {
+      const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      library.failures.push({ file: files[index], message });
+    }
+  });
+  return library;
+}
+
+export async function readScenarioFile(file: File, definition: YardDefinition): Promise<ScenarioDefinition> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not valid JSON`);
+  }
+  return parseScenario(data, definition);
+}
+
+export function describeScenario(scenario: ScenarioDefinition): string {
+  const parts = [
+    `${scenario.occupancy?.length || 0} in yard`,
+    `${scenario.arrivals?.length || 0} arrivals`
+  ];
+  if (scenario.failures?.length) parts.push(`${scenario.failures.length} failure(s)`);
+  if (scenario.bayOutages?.length) parts.push(`${scenario.bayOutages.length} bay outage(s)`);
+  if (scenario.departures?.length) parts.push(`${scenario.departures.length} departures`);
+  return parts.join(', ');
+}
@@ -0,0 +1,120 @@
+import { Train, SidingSlot, WorkshopLine, Route, ScoringPolicy, ScoreTerm } from '@/types/yard';
+
+export const DEFAULT_POLICY_ID = 'default';
+
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = {
+  id: DEFAULT_POLICY_ID,
+  name: 'Default',
+  siding: {
+    base: 100,
+    departSoonFrontBonus: 20,
+    departSoonRearPenalty: 10,
+    reverseCostPenalty: 5,
+    lowRiskBonus: 10,
+    highRiskPenalty: 10,
+    priorityProximityBonus: 8,
+    switchPenalty: 2
+  },
+  workshop: {
+    base: 100,
+    specialisationBonus: 50,
+    priorityPrimaryLineBonus: 10
+  }
+};
+
+// Labels for the settings panel, in display order
+export const SIDING_WEIGHT_LABELS: Record<keyof ScoringPolicy['siding'], string> = {
+  base: 'Base score',
+  departSoonFrontBonus: 'Depart-soon train in slot a (bonus)',
+  departSoonRearPenalty: 'Depart-soon train in slot b (penalty)',
+  reverseCostPenalty: 'Per unit of reverse cost (penalty)',
+  lowRiskBonus: 'Low blocking risk (bonus)',
+  highRiskPenalty: 'High blocking risk (penalty)',
+  priorityProximityBonus: 'Priority train, per switch fewer on the way out (bonus)',
+  switchPenalty: 'Per switch on the route (penalty)'
+};
+
+export const WORKSHOP_WEIGHT_LABELS: Record<keyof ScoringPolicy['workshop'], string> = {
+  base: 'Base score',
+  specialisationBonus: 'Specialised line for the failure (bonus)',
+  priorityPrimaryLineBonus: 'Priority train on the primary line (bonus)'
+};
+
+const STORAGE_KEY = 'yard.scoringPolicies';
+
+export function sumTerms(terms: ScoreTerm[]): number {
+  return Math.max(0, terms.reduce((sum, term) => sum + term.points, 0));
+}
+
+export function describeTerm(term: ScoreTerm): string {
+  return `${term.points >= 0 ? '+' : ''}${term.points} ${term.label}`;
+}
+
+// Terms that contributed nothing are left out, except the base
+function collect(terms: ScoreTerm[]): ScoreTerm[] {
+  return terms.filter((term, index) => index === 0 || term.points !== 0);
+}
+
+export function scoreSiding(policy: ScoringPolicy, train: Train, slot: SidingSlot, route: Route): ScoreTerm[] {
+  const weights = policy.siding;
+  const reverseCost = slot.reverseCost || 1;
+  const exitProximity = slot.exitProximity || 0;
+
+  return collect([
+    { label: 'Base score', points: weights.base },
+    {
+      label: 'Depart-soon train in the front slot',
+      points: train.departSoon && slot.slot === 'a' ? weights.departSoonFrontBonus : 0
+    },
+    {
+      label: 'Depart-soon train in the rear slot',
+      points: train.departSoon && slot.slot === 'b' ? -weights.departSoonRearPenalty : 0
+    },
+    { label: `Reverse cost ${reverseCost}`, points: -reverseCost * weights.reverseCostPenalty },
+    { label: 'Low blocking risk', points: slot.blockingRisk === 'low' ? weights.lowRiskBonus : 0 },
+    { label: 'High blocking risk', points: slot.blockingRisk === 'high' ? -weights.highRiskPenalty : 0 },
+    // Priority trains go where the way out crosses the fewest switches, measured from the layout
+    {
+      label: `Priority train, ${exitProximity} switch(es) fewer on the way out`,
+      points: train.priority ? exitProximity * weights.priorityProximityBonus : 0
+    },
+    { label: `${route.switchCount} switch(es) on the route`, points: -route.switchCount * weights.switchPenalty }
+  ]);
+}
+
+export function scoreWorkshop(policy: ScoringPolicy, train: Train, workshop: WorkshopLine): ScoreTerm[] {
+  const weights = policy.workshop;
+
+  return collect([
+    { label: 'Base score', points: weights.base },
+    {
+      label: `Specialised for ${workshop.specialization} repairs`,
+      points: workshop.specialization && train.failures.includes(workshop.specialization) ? weights.specialisationBonus : 0
+    },
+    // WL1 is taken to be the fastest line
+    {
+      label: 'Priority train on the primary line',
+      points: train.priority && workshop.id === 'WL1' ? weights.priorityPrimaryLineBonus : 0
+    }
+  ]);
+}
+
+// Named policies kept in the browser between sessions; the default is never stored
+export function loadStoredPolicies(): ScoringPolicy[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storePolicies(policies: ScoringPolicy[]): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(policies.filter(policy => policy.id !== DEFAULT_POLICY_ID)));
+  } catch {
+    // Storage full or disabled - the policies still apply for this session
+  }
+}
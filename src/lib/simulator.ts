@@ -9,17 +9,303 @@ import {
   SimulatorCommand,
   InspectionBay,
   WorkshopLine,
-  SidingSlot
+  SidingSlot,
+  SwitchState,
+  Route,
+  YardScenario,
+  DepartureSlot,
+  InductionPlan,
+  CertificateType,
+  CleaningType,
+  CleaningJob,
+  ScoringPolicy,
+  RecommendationContext,
+  RecommendationStrategy,
+  SimulatorOptions,
+  ScenarioDefinition,
+  ScheduledArrival
 } from '@/types/yard';
+import { YardRouter, switchLockId, getSwitchLeg } from '@/lib/routing';
+import { computeSlotTopology, deriveSlotCosts } from '@/lib/topology';
+import { SegmentReservationManager } from '@/lib/reservations';
+import { MovePlanner, SWITCH_THROW_MS } from '@/lib/planner';
+import { SimulationClock, TimerId, nextTimeOfDay } from '@/lib/clock';
+import { createRandom, createSeed } from '@/lib/random';
+import { IdSequence } from '@/lib/ids';
+import { parseScenario } from '@/lib/scenarios';
+import { PRESET_OCCUPANCY, DEFAULT_TIMETABLE, PRESET_BRANDING } from '@/lib/presets';
+import { InductionPlanner, MIN_SERVICE_FITNESS } from '@/lib/induction';
+import {
+  CERTIFICATE_LABELS,
+  createCertificates,
+  describeExpiry,
+  getExpiredCertificates,
+  issueCertificate
+} from '@/lib/certificates';
+import {
+  CLEANING_DURATION_MS,
+  CLEANING_LABELS,
+  DEFAULT_CLEANING_CREWS,
+  createCleaningRecord,
+  describeOverdue,
+  getOverdueCleaning
+} from '@/lib/cleaning';
+import { DEFAULT_POLICY_ID, DEFAULT_SCORING_POLICY } from '@/lib/scoring';
+import { BUILT_IN_STRATEGIES, DEFAULT_STRATEGY_ID, summarizeStrategy } from '@/lib/strategies';
+import { SERVICE_DAY_HOURS, DEFAULT_BRANDING_PERIOD_DAYS, getExposureShortfall, getContractCompliance, getTrainContract } from '@/lib/branding';
+import { SERVICE_DAY_KM, TEST_RUN_KM, getFleetMileage, getRelativeMileage, shouldRest } from '@/lib/mileage';
+
+const DEPARTURE_REVIEW_MS = 30 * 60 * 1000; // readiness check and dispatch booking ahead of a service
+export const DEPARTURE_MARGIN_MS = 60 * 1000; // slack allowed between reaching the exit and the booked time
+const SHUNT_ALLOWANCE_MS = 5 * 60 * 1000; // clearing a slot-a train out of the way
 
 export class YardSimulator {
   private state: YardState;
   private definition: YardDefinition;
+  private router: YardRouter;
+  private reservations: SegmentReservationManager;
+  private planner: MovePlanner;
+  private clock: SimulationClock;
+  private induction = new InductionPlanner();
+  private scenario: YardScenario | ScenarioDefinition = 'empty';
+  private pendingDepartures = new Map<string, string>(); // trainId -> exit, waiting for the slot in front to clear
+  private awaitingSiding = new Set<string>(); // done at a bay or workshop line with no siding to go to yet
+  private awaitingWorkshop = new Set<string>(); // failed inspection with no workshop line to go to yet
+  private expectedArrivals: ScheduledArrival[] = []; // announced ahead, for strategies that look forward
+  private departureTimers: Record<string, TimerId[]> = {};
+  private certificateTimers: Record<string, TimerId> = {}; // `${trainId}:${type}` -> lapse timer
+  private contractTimers: Record<string, TimerId> = {}; // contractId -> end of the current period
+  private cleaningTimers: Record<string, TimerId> = {}; // jobId -> scheduled start or finish
+  private strategies: Record<string, RecommendationStrategy> = Object.fromEntries(
+    BUILT_IN_STRATEGIES.map(strategy => [strategy.id, strategy])
+  );
   private eventHandlers: ((event: YardEvent) => void)[] = [];
-
-  constructor(definition: YardDefinition) {
+  private seed: number;
+  private createRandom: (seed: number) => () => number;
+  private random: () => number;
+  private ids = new IdSequence();
+  private manualClock: boolean;
+  private autoAccept: boolean;
+
+  constructor(definition: YardDefinition, options: SimulatorOptions = {}) {
     this.definition = definition;
+    this.seed = options.seed ?? createSeed();
+    this.createRandom = options.random || createRandom;
+    this.random = this.createRandom(this.seed);
+    this.manualClock = !!options.manualClock;
+    this.autoAccept = !!options.autoAccept;
+    this.clock = new SimulationClock(options.startTime, this.manualClock);
+    this.router = new YardRouter(definition);
+    this.planner = new MovePlanner(definition, this.router, this.clock, this.ids);
+    this.state = this.initializeState();
+    this.reservations = this.createReservations();
+    this.scheduleDepartures();
+  }
+
+  private createReservations(): SegmentReservationManager {
+    return new SegmentReservationManager(
+      this.state.lockedSegments,
+      (type, trainId, segments) => this.emitLockEvent(type, trainId, segments)
+    );
+  }
+
+  // Start over from a clean yard; without a scenario or seed the previous ones are kept.
+  // Ids and chance restart with the seed. On a manual clock the same commands then replay the
+  // same run; a live clock times events by the wall clock, so only ids and outcomes repeat
+  public reset(scenario: YardScenario | ScenarioDefinition = this.scenario, seed?: number): void {
+    const file = typeof scenario === 'object' ? scenario : undefined;
+    seed = seed ?? file?.seed ?? this.seed;
+    this.scenario = scenario;
+    this.seed = seed;
+    this.random = this.createRandom(seed);
+    this.ids.reset();
+
+    // Pending timers belong to trains and plans that no longer exist
+    this.clock.clear();
+    // Time only runs forward, so a drill starts at the next occurrence of its start time
+    const startTime = file?.startTime && nextTimeOfDay(file.startTime, this.clock.now());
+    if (startTime) this.clock.advanceTo(startTime);
+    this.pendingDepartures.clear();
+    this.awaitingSiding.clear();
+    this.awaitingWorkshop.clear();
+    this.expectedArrivals = [];
+    this.departureTimers = {};
+    this.certificateTimers = {};
+    this.contractTimers = {};
+    this.cleaningTimers = {};
+    // Scoring policies, the strategy and the speed are settings rather than yard state, so they outlive the reset
+    const { scoringPolicies, activeScoringPolicyId, activeStrategyId, simulationSpeed } = this.state;
     this.state = this.initializeState();
+    this.state.scoringPolicies = scoringPolicies;
+    this.state.activeScoringPolicyId = activeScoringPolicyId;
+    this.state.activeStrategyId = activeStrategyId;
+    this.state.simulationSpeed = simulationSpeed;
+    this.reservations = this.createReservations();
+    this.clock.setRate(this.state.simulationSpeed);
+    // A manual clock stays stopped; otherwise a reset always sets the yard running again
+    if (!this.manualClock) this.clock.resume();
+    this.state.paused = this.clock.isPaused();
+    if (file?.departures) {
+      this.state.departures = this.createTimetable(file.departures);
+    }
+    this.scheduleDepartures();
+
+    if (scenario === 'preset') {
+      PRESET_OCCUPANCY.forEach(placement => this.placeTrain(placement.nodeId, placement.train));
+      this.loadPresetBranding();
+    } else if (file) {
+      this.applyScenario(file);
+    }
+
+    const description = file ? `scenario "${file.name}"` : scenario === 'preset' ? 'preset starting occupancy' : 'empty yard';
+    this.emitEvent({
+      type: 'log:new',
+      message: `Simulation reset - ${description}, seed ${seed}`,
+      severity: 'info',
+      data: { scenario: file ? file.id : scenario, seed }
+    });
+  }
+
+  // Validate a scenario file against this yard and start it; throws if it doesn't fit
+  public loadScenario(data: unknown, seed?: number): ScenarioDefinition {
+    const scenario = parseScenario(data, this.definition);
+    this.reset(scenario, seed);
+    return scenario;
+  }
+
+  // Starting occupancy now; arrivals, failures and outages on the clock
+  private applyScenario(scenario: ScenarioDefinition): void {
+    const minutes = (count: number) => count * 60 * 1000;
+    const findTrain = (number: string) => Object.values(this.state.trains).find(train => train.number === number);
+    const bookings = (scenario.departures || [])
+      .map((entry, index) => ({ departureId: `dep_${index + 1}`, trainNumber: entry.trainNumber }))
+      .filter(booking => booking.trainNumber);
+    const book = (number: string) => {
+      const train = findTrain(number);
+      bookings
+        .filter(booking => booking.trainNumber === number)
+        .forEach(booking => train && this.assignDeparture(booking.departureId, train.id));
+    };
+
+    // Rear slots first: nothing can be put behind a train already standing in front
+    const occupancy = [...(scenario.occupancy || [])].sort((a, b) =>
+      Number(!this.state.sidingSlots[a.nodeId]?.topology?.behindSlot) - Number(!this.state.sidingSlots[b.nodeId]?.topology?.behindSlot)
+    );
+    occupancy.forEach(placement => {
+      this.placeTrain(placement.nodeId, placement.train);
+      book(placement.train.number);
+    });
+
+    this.announceArrivals((scenario.arrivals || []).map(arrival => ({
+      arrivesAt: this.clock.now() + minutes(arrival.atMinute),
+      train: arrival.train
+    })));
+    (scenario.arrivals || []).forEach(arrival => {
+      this.clock.schedule(() => {
+        this.enqueueTrain(arrival.train);
+        book(arrival.train.number);
+      }, minutes(arrival.atMinute));
+    });
+
+    (scenario.failures || []).forEach(entry => {
+      this.clock.schedule(() => {
+        const train = findTrain(entry.trainNumber);
+        if (train) this.reportFailure(train.id, entry.failure);
+      }, minutes(entry.atMinute));
+    });
+
+    (scenario.bayOutages || []).forEach(outage => {
+      this.clock.schedule(
+        () => this.closeBay(outage.bayId, minutes(outage.durationMinutes), outage.reason || 'Unplanned outage'),
+        minutes(outage.atMinute)
+      );
+    });
+  }
+
+  // A fault found outside inspection: a train standing in the yard is offered a workshop line
+  public reportFailure(trainId: string, failure: string): void {
+    const train = this.state.trains[trainId];
+    if (!train || train.status === 'departed') return;
+
+    if (!train.failures.includes(failure)) train.failures.push(failure);
+    this.emitEvent({
+      type: 'train:updated',
+      trainId,
+      message: `${failure} fault reported on ${train.number}`,
+      severity: 'warning',
+      data: { failure }
+    });
+
+    if ((train.status !== 'parked' && train.status !== 'test') || this.getExecutingPlan(trainId)) return;
+
+    const recommendations = this.generateWorkshopRecommendations(trainId);
+    this.emitEvent({
+      type: 'plan:preview',
+      trainId,
+      message: `Generated ${recommendations.length} workshop recommendations for train ${train.number}`,
+      severity: 'info',
+      data: { recommendations, strategy: this.getStrategy().name }
+    });
+
+    const best = recommendations[0];
+    if (this.autoAccept && best) {
+      this.clock.schedule(() => this.assignTrainToWorkshop(trainId, best.targetId), 1000);
+    }
+  }
+
+  // Take a bay out of use; a train already in it finishes and leaves first
+  public closeBay(bayId: string, durationMs: number, reason: string): void {
+    const bay = this.state.inspectionBays[bayId];
+    if (!bay) return;
+
+    bay.outage = { reason, until: this.clock.now() + durationMs };
+    if (bay.status === 'free') bay.status = 'closed';
+
+    const occupant = bay.occupiedBy && this.state.trains[bay.occupiedBy];
+    this.emitEvent({
+      type: 'log:new',
+      message: `${bay.name} out of use until ${new Date(bay.outage.until).toLocaleTimeString()} - ${reason}${occupant ? `, once ${occupant.number} has left` : ''}`,
+      severity: 'warning',
+      data: { bayId }
+    });
+
+    this.clock.schedule(() => this.reopenBay(bayId), durationMs);
+  }
+
+  private reopenBay(bayId: string): void {
+    const bay = this.state.inspectionBays[bayId];
+    if (!bay?.outage || bay.outage.until > this.clock.now()) return;
+
+    bay.outage = undefined;
+    if (bay.status === 'closed') bay.status = 'free';
+    this.emitEvent({
+      type: 'log:new',
+      message: `${bay.name} back in use`,
+      severity: 'success',
+      data: { bayId }
+    });
+    this.processQueuedTrains();
+    this.processCleaningQueue();
+  }
+
+  // Services from HH:MM times, all on the next morning
+  private createTimetable(entries: { time: string; serviceName?: string; exitPointId?: string }[]): Record<string, DepartureSlot> {
+    const departures: Record<string, DepartureSlot> = {};
+    if (entries.length === 0) return departures;
+
+    const firstDeparture = nextTimeOfDay(entries[0].time, this.clock.now()) ?? this.clock.now();
+    entries.forEach((entry, index) => {
+      const id = `dep_${index + 1}`;
+      departures[id] = {
+        id,
+        serviceName: entry.serviceName || `Service ${101 + index}`,
+        departureTime: nextTimeOfDay(entry.time, firstDeparture) ?? firstDeparture,
+        exitPointId: entry.exitPointId || this.definition.exitPoints[0],
+        status: 'planned',
+        warnings: []
+      };
+    });
+    return departures;
   }
 
   private initializeState(): YardState {
@@ -49,8 +335,9 @@ export class YardSimulator {
       };
     });
 
-    // Initialize siding slots
+    // Initialize siding slots, costed from where they sit in the track layout
     const sidingSlots: Record<string, SidingSlot> = {};
+    const topology = computeSlotTopology(this.definition, this.router);
     this.definition.sidingSlots.forEach(nodeId => {
       const node = this.definition.nodes[nodeId];
       const metadata = node.metadata;
@@ -59,37 +346,57 @@ export class YardSimulator {
           id: nodeId,
           sidingId: metadata.sidingId,
           slot: metadata.slot,
-          reverseCost: metadata.reverseCost,
-          blockingRisk: this.calculateBlockingRisk(metadata.sidingId, metadata.slot)
+          ...deriveSlotCosts(topology, nodeId, metadata),
+          topology: topology[nodeId]
         };
       }
     });
 
+    // Initialize switches, lying towards their first outgoing leg; the trunk is never a position
+    const switches: Record<string, SwitchState> = {};
+    Object.values(this.definition.nodes)
+      .filter(node => node.type === 'switch')
+      .forEach(node => {
+        const positions = this.router.getSwitchLegs(node.id);
+        const outgoing = this.definition.connections.find(c => c.from === node.id && positions.includes(c.to));
+        switches[node.id] = {
+          id: node.id,
+          nodeId: node.id,
+          position: outgoing?.to || positions[0],
+          positions,
+          throwTimeMs: SWITCH_THROW_MS,
+          locked: false
+        };
+      });
+
+    const departures = this.createTimetable(DEFAULT_TIMETABLE);
+
     return {
       trains: {},
       inspectionBays,
       workshopLines,
       sidingSlots,
+      switches,
+      departures,
+      brandingContracts: {},
+      cleaningJobs: {},
+      cleaningCrews: DEFAULT_CLEANING_CREWS,
+      scoringPolicies: { [DEFAULT_POLICY_ID]: DEFAULT_SCORING_POLICY },
+      activeScoringPolicyId: DEFAULT_POLICY_ID,
+      recommendationStrategies: Object.fromEntries(
+        Object.values(this.strategies).map(strategy => [strategy.id, summarizeStrategy(strategy)])
+      ),
+      activeStrategyId: DEFAULT_STRATEGY_ID,
       lockedSegments: new Set(),
       activePlans: {},
       eventLog: [],
+      seed: this.seed,
       simulationSpeed: 1,
-      lastUpdate: Date.now()
+      paused: this.clock.isPaused(),
+      lastUpdate: this.clock.now()
     };
   }
 
-  private calculateBlockingRisk(sidingId: string, slot: 'a' | 'b'): 'low' | 'medium' | 'high' {
-    // Slot 'a' has lower blocking risk since it doesn't block 'b'
-    // Higher numbered sidings have lower blocking risk (easier access)
-    const sidingNum = parseInt(sidingId.substring(1));
-    
-    if (slot === 'a') {
-      return sidingNum > 8 ? 'low' : sidingNum > 4 ? 'medium' : 'high';
-    } else {
-      return sidingNum > 8 ? 'medium' : 'high';
-    }
-  }
-
   public addEventListener(handler: (event: YardEvent) => void): void {
     this.eventHandlers.push(handler);
   }
@@ -104,34 +411,419 @@ export class YardSimulator {
   private emitEvent(event: Omit<YardEvent, 'id' | 'timestamp'>): void {
     const fullEvent: YardEvent = {
       ...event,
-      id: Math.random().toString(36).substr(2, 9),
-      timestamp: Date.now()
+      id: this.ids.next('evt'),
+      timestamp: this.clock.now()
     };
     
     this.state.eventLog.push(fullEvent);
     this.eventHandlers.forEach(handler => handler(fullEvent));
   }
 
-  public enqueueTrain(trainData: Partial<Train>): string {
-    const trainId = `train_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    const train: Train = {
+  private buildTrain(trainData: Partial<Train>, locationNodeId: string): Train {
+    const trainId = this.ids.next('train');
+
+    return {
       id: trainId,
       number: trainData.number || `T${Object.keys(this.state.trains).length + 1}`,
       status: 'arriving',
-      locationNodeId: 'E1', // Always start at entry point
+      locationNodeId,
       orientation: 'east',
-      fitness: trainData.fitness || Math.floor(Math.random() * 100),
-      mileage: trainData.mileage || Math.floor(Math.random() * 50000),
+      fitness: trainData.fitness || Math.floor(this.random() * 100),
+      certificates: trainData.certificates || createCertificates(this.clock.now(), this.random),
+      mileage: trainData.mileage || Math.floor(this.random() * 50000),
+      lastCleaned: trainData.lastCleaned || createCleaningRecord(this.clock.now(), this.random),
       jobCard: trainData.jobCard || { tasks: [] },
       failures: trainData.failures || [],
       priority: trainData.priority || false,
       departSoon: trainData.departSoon || false,
-      arrivalTime: Date.now(),
-      lastUpdated: Date.now()
+      arrivalTime: this.clock.now(),
+      lastUpdated: this.clock.now()
+    };
+  }
+
+  // Put a train straight into a slot or workshop line, as if it had just arrived there
+  private placeTrain(nodeId: string, trainData: Partial<Train>): void {
+    const train = this.buildTrain(trainData, nodeId);
+    this.state.trains[train.id] = train;
+
+    if (!this.claimTarget(train.id, nodeId)) {
+      delete this.state.trains[train.id];
+      return;
+    }
+    this.trackCertificates(train);
+    this.handleArrival(train.id, nodeId);
+  }
+
+  private trackCertificates(train: Train): void {
+    Object.values(train.certificates).forEach(certificate => this.scheduleCertificateLapse(train.id, certificate.type));
+  }
+
+  private scheduleCertificateLapse(trainId: string, type: CertificateType): void {
+    const key = `${trainId}:${type}`;
+    if (this.certificateTimers[key] !== undefined) {
+      this.clock.cancel(this.certificateTimers[key]);
+    }
+
+    const certificate = this.state.trains[trainId]?.certificates[type];
+    if (!certificate) return;
+
+    this.certificateTimers[key] = this.clock.schedule(() => {
+      delete this.certificateTimers[key];
+      const train = this.state.trains[trainId];
+      if (!train || train.status === 'departed' || train.certificates[type].expiresAt > this.clock.now()) return;
+
+      this.emitEvent({
+        type: 'train:updated',
+        trainId,
+        message: `Train ${train.number} ${CERTIFICATE_LABELS[type].toLowerCase()} certificate lapsed - blocked from induction and dispatch`,
+        severity: 'warning',
+        data: { certificate: type }
+      });
+    }, certificate.expiresAt - this.clock.now());
+  }
+
+  public renewCertificate(trainId: string, type: CertificateType): void {
+    const train = this.state.trains[trainId];
+    if (!train || !CERTIFICATE_LABELS[type]) return;
+
+    train.certificates[type] = issueCertificate(type, this.clock.now());
+    this.scheduleCertificateLapse(trainId, type);
+
+    this.emitEvent({
+      type: 'train:updated',
+      trainId,
+      message: `Train ${train.number} ${CERTIFICATE_LABELS[type].toLowerCase()} certificate renewed until ${new Date(train.certificates[type].expiresAt).toLocaleString()}`,
+      severity: 'success',
+      data: { certificate: type }
+    });
+  }
+
+  // Preset contracts start part-way through their period with some hours already run
+  private loadPresetBranding(): void {
+    const byNumber = new Map(Object.values(this.state.trains).map(train => [train.number, train.id]));
+
+    PRESET_BRANDING.forEach(preset => {
+      const trainIds = preset.trainNumbers
+        .map(number => byNumber.get(number))
+        .filter((id): id is string => !!id);
+      const contractId = this.addBrandingContract(preset.advertiser, preset.requiredHours, preset.periodDays, trainIds);
+      const contract = this.state.brandingContracts[contractId];
+
+      contract.periodStart -= preset.elapsedDays * 24 * 60 * 60 * 1000;
+      Object.entries(preset.exposureHours).forEach(([number, hours]) => {
+        const trainId = byNumber.get(number);
+        if (trainId) contract.exposureHours[trainId] = hours;
+      });
+      this.scheduleContractPeriod(contractId);
+    });
+  }
+
+  public addBrandingContract(advertiser: string, requiredHours: number, periodDays: number, trainIds: string[]): string {
+    const id = this.ids.next('contract');
+    const linked = trainIds.filter(trainId => this.state.trains[trainId]);
+
+    // A trainset carries one wrap at a time
+    Object.values(this.state.brandingContracts).forEach(contract => {
+      contract.trainIds = contract.trainIds.filter(trainId => !linked.includes(trainId));
+    });
+
+    this.state.brandingContracts[id] = {
+      id,
+      advertiser,
+      requiredHours,
+      periodMs: periodDays * 24 * 60 * 60 * 1000,
+      periodStart: this.clock.now(),
+      trainIds: linked,
+      exposureHours: Object.fromEntries(linked.map(trainId => [trainId, 0]))
+    };
+    this.scheduleContractPeriod(id);
+
+    this.emitEvent({
+      type: 'log:new',
+      message: `Branding contract for ${advertiser}: ${requiredHours}h every ${periodDays} day(s) across ${linked.length} train(s)`,
+      severity: 'info',
+      data: { contractId: id }
+    });
+    return id;
+  }
+
+  public removeBrandingContract(contractId: string): void {
+    const contract = this.state.brandingContracts[contractId];
+    if (!contract) return;
+
+    if (this.contractTimers[contractId] !== undefined) {
+      this.clock.cancel(this.contractTimers[contractId]);
+      delete this.contractTimers[contractId];
+    }
+    delete this.state.brandingContracts[contractId];
+
+    this.emitEvent({
+      type: 'log:new',
+      message: `Branding contract for ${contract.advertiser} removed`,
+      severity: 'info',
+      data: { contractId }
+    });
+  }
+
+  // Close the period when it ends, report whether the hours were delivered and start the next one
+  private scheduleContractPeriod(contractId: string): void {
+    if (this.contractTimers[contractId] !== undefined) {
+      this.clock.cancel(this.contractTimers[contractId]);
+    }
+
+    const contract = this.state.brandingContracts[contractId];
+    if (!contract) return;
+
+    this.contractTimers[contractId] = this.clock.schedule(() => {
+      delete this.contractTimers[contractId];
+      const current = this.state.brandingContracts[contractId];
+      if (!current) return;
+
+      const compliance = getContractCompliance(current, this.clock.now());
+      this.emitEvent({
+        type: 'log:new',
+        message: compliance.status === 'met'
+          ? `${current.advertiser} branding period closed - ${Math.round(compliance.accruedHours)}h of ${current.requiredHours}h delivered`
+          : `${current.advertiser} branding period closed ${Math.round(compliance.remainingHours)}h short of the contracted ${current.requiredHours}h`,
+        severity: compliance.status === 'met' ? 'success' : 'error',
+        data: { contractId, accruedHours: compliance.accruedHours }
+      });
+
+      current.periodStart += current.periodMs;
+      current.exposureHours = Object.fromEntries(current.trainIds.map(trainId => [trainId, 0]));
+      this.scheduleContractPeriod(contractId);
+    }, contract.periodStart + contract.periodMs - this.clock.now());
+  }
+
+  // Every wrapped train out on a service day counts towards its contract
+  private recordExposure(trainId: string): void {
+    const contract = getTrainContract(this.state.trains[trainId], Object.values(this.state.brandingContracts));
+    if (!contract) return;
+    contract.exposureHours[trainId] = (contract.exposureHours[trainId] || 0) + SERVICE_DAY_HOURS;
+  }
+
+  // Book a clean; it starts once the time comes, a crew is free and the train is stabled
+  public scheduleCleaning(
+    trainId: string,
+    type: CleaningType,
+    location: CleaningJob['location'],
+    bayId?: string,
+    scheduledFor: number = this.clock.now()
+  ): string | undefined {
+    const train = this.state.trains[trainId];
+    if (!train || train.status === 'departed' || !CLEANING_LABELS[type]) return undefined;
+    if (bayId && !this.state.inspectionBays[bayId]) return undefined;
+
+    const id = this.ids.next('clean');
+    this.state.cleaningJobs[id] = {
+      id,
+      trainId,
+      type,
+      location,
+      bayId: location === 'bay' ? bayId : undefined,
+      scheduledFor,
+      durationMs: CLEANING_DURATION_MS[type],
+      status: 'scheduled'
     };
 
+    this.emitEvent({
+      type: 'train:updated',
+      trainId,
+      message: `${CLEANING_LABELS[type]} booked for ${train.number} ${location === 'bay' ? `in ${bayId ? this.state.inspectionBays[bayId].name : 'the first free bay'}` : 'at its siding'} from ${new Date(scheduledFor).toLocaleTimeString()}`,
+      severity: 'info',
+      data: { jobId: id }
+    });
+
+    this.cleaningTimers[id] = this.clock.schedule(() => {
+      delete this.cleaningTimers[id];
+      this.processCleaningQueue();
+    }, scheduledFor - this.clock.now());
+    return id;
+  }
+
+  public cancelCleaning(jobId: string): void {
+    const job = this.state.cleaningJobs[jobId];
+    if (!job || job.status !== 'scheduled') return;
+
+    this.clearCleaningTimer(jobId);
+    job.status = 'cancelled';
+    this.emitEvent({
+      type: 'train:updated',
+      trainId: job.trainId,
+      message: `${CLEANING_LABELS[job.type]} for ${this.state.trains[job.trainId]?.number || job.trainId} cancelled`,
+      severity: 'info',
+      data: { jobId }
+    });
+  }
+
+  public setCleaningCrews(crews: number): void {
+    this.state.cleaningCrews = Math.max(0, Math.floor(crews));
+    this.emitEvent({
+      type: 'log:new',
+      message: `Cleaning crews set to ${this.state.cleaningCrews}`,
+      severity: 'info'
+    });
+    this.processCleaningQueue();
+  }
+
+  private clearCleaningTimer(jobId: string): void {
+    if (this.cleaningTimers[jobId] !== undefined) {
+      this.clock.cancel(this.cleaningTimers[jobId]);
+      delete this.cleaningTimers[jobId];
+    }
+  }
+
+  private getActiveCleaning(trainId: string): CleaningJob | undefined {
+    return Object.values(this.state.cleaningJobs).find(job => job.trainId === trainId && job.status === 'in-progress');
+  }
+
+  // When the job should be done; bay jobs still on the way in count from now
+  private getCleaningFinish(job: CleaningJob): number {
+    const train = this.state.trains[job.trainId];
+    if (job.status === 'in-progress' && train?.status === 'cleaning' && job.startedAt !== undefined) {
+      return job.startedAt + job.durationMs;
+    }
+    return Math.max(this.clock.now(), job.scheduledFor) + job.durationMs;
+  }
+
+  // Start due jobs in booking order while crews are free
+  private processCleaningQueue(): void {
+    let running = Object.values(this.state.cleaningJobs).filter(job => job.status === 'in-progress').length;
+    const due = Object.values(this.state.cleaningJobs)
+      .filter(job => job.status === 'scheduled' && job.scheduledFor <= this.clock.now())
+      .sort((a, b) => a.scheduledFor - b.scheduledFor);
+
+    for (const job of due) {
+      if (running >= this.state.cleaningCrews) break;
+
+      const train = this.state.trains[job.trainId];
+      if (!train || train.status === 'departed') {
+        job.status = 'cancelled';
+        continue;
+      }
+      if (this.startCleaning(job)) running++;
+    }
+  }
+
+  private startCleaning(job: CleaningJob): boolean {
+    const train = this.state.trains[job.trainId];
+    if (train.status !== 'parked' || this.getExecutingPlan(train.id) || this.pendingDepartures.has(train.id)) return false;
+
+    if (job.location === 'bay') {
+      const bay = job.bayId
+        ? this.state.inspectionBays[job.bayId]
+        : Object.values(this.state.inspectionBays).find(candidate => candidate.status === 'free');
+      if (!bay || bay.status !== 'free') return false;
+
+      // Block the bay for inspection before the train sets off
+      bay.status = 'cleaning';
+      bay.occupiedBy = train.id;
+      job.bayId = bay.id;
+
+      const plan = this.createPlan(train.id, bay.id);
+      if (!plan || !this.executePlan(plan.id)) {
+        bay.status = 'free';
+        bay.occupiedBy = undefined;
+        job.location = 'siding';
+        job.bayId = undefined;
+        this.emitEvent({
+          type: 'train:updated',
+          trainId: train.id,
+          message: `${train.number} cannot reach ${bay.name} - ${CLEANING_LABELS[job.type].toLowerCase()} moved to the siding`,
+          severity: 'warning',
+          data: { jobId: job.id }
+        });
+      } else {
+        job.status = 'in-progress';
+        job.startedAt = this.clock.now();
+        return true;
+      }
+    }
+
+    job.status = 'in-progress';
+    this.beginCleaningWork(job);
+    return true;
+  }
+
+  // Crew on board: the clock on the job starts now
+  private beginCleaningWork(job: CleaningJob): void {
+    const train = this.state.trains[job.trainId];
+    train.status = 'cleaning';
+    job.startedAt = this.clock.now();
+
+    this.emitEvent({
+      type: 'train:updated',
+      trainId: train.id,
+      message: `${CLEANING_LABELS[job.type]} started on ${train.number} ${job.bayId ? `in ${this.state.inspectionBays[job.bayId].name}` : `at ${this.describeNode(train.locationNodeId)}`}`,
+      severity: 'info',
+      data: { jobId: job.id }
+    });
+
+    this.cleaningTimers[job.id] = this.clock.schedule(() => {
+      delete this.cleaningTimers[job.id];
+      this.completeCleaning(job.id);
+    }, job.durationMs);
+  }
+
+  private completeCleaning(jobId: string): void {
+    const job = this.state.cleaningJobs[jobId];
+    if (!job || job.status !== 'in-progress') return;
+    const train = this.state.trains[job.trainId];
+    if (!train) return;
+
+    job.status = 'completed';
+    job.completedAt = this.clock.now();
+    train.lastCleaned[job.type] = this.clock.now();
+    // Detailing covers the routine interior clean as well
+    if (job.type === 'deep-detail') {
+      train.lastCleaned.interior = this.clock.now();
+    }
+
+    this.emitEvent({
+      type: 'train:updated',
+      trainId: train.id,
+      message: `${CLEANING_LABELS[job.type]} finished on ${train.number}`,
+      severity: 'success',
+      data: { jobId }
+    });
+
+    if (job.bayId) {
+      // Back out to the best free siding, which releases the bay for inspection again
+      train.status = 'moving';
+      this.sendToSiding(train.id);
+    } else {
+      train.status = 'parked';
+    }
+    this.processCleaningQueue();
+  }
+
+  // The train never made it into the bay, so the job goes back to the crew list
+  private abandonCleaning(trainId: string): void {
+    const job = this.getActiveCleaning(trainId);
+    if (!job || this.state.trains[trainId]?.status === 'cleaning') return;
+
+    job.status = 'cancelled';
+    this.emitEvent({
+      type: 'train:updated',
+      trainId,
+      message: `${CLEANING_LABELS[job.type]} for ${this.state.trains[trainId]?.number || trainId} abandoned - the train did not reach the bay`,
+      severity: 'warning',
+      data: { jobId: job.id }
+    });
+    this.processCleaningQueue();
+  }
+
+  // Trains known to be on their way; they still come in through enqueueTrain when they get here
+  public announceArrivals(arrivals: ScheduledArrival[]): void {
+    this.expectedArrivals = [...this.expectedArrivals, ...arrivals].sort((a, b) => a.arrivesAt - b.arrivesAt);
+  }
+
+  public enqueueTrain(trainData: Partial<Train>): string {
+    const train = this.buildTrain(trainData, 'E1'); // Always start at entry point
+    const trainId = train.id;
+
     this.state.trains[trainId] = train;
+    this.trackCertificates(train);
     
     this.emitEvent({
       type: 'train:created',
@@ -141,8 +833,12 @@ export class YardSimulator {
       data: { train }
     });
 
+    if (train.departSoon) {
+      this.assignToNextDeparture(trainId);
+    }
+
     // Auto-assign to inspection bay
-    setTimeout(() => {
+    this.clock.schedule(() => {
       this.autoAssignToInspection(trainId);
     }, 2000); // 2 second delay for visual effect
 
@@ -151,7 +847,7 @@ export class YardSimulator {
 
   private autoAssignToInspection(trainId: string): void {
     const train = this.state.trains[trainId];
-    if (!train || train.status !== 'arriving') return;
+    if (!train || (train.status !== 'arriving' && train.status !== 'queued')) return;
 
     // Find first available inspection bay (IL-1 → IL-2 → IL-3 → DIC)
     const availableBay = this.definition.inspectionBays.find(bayId => 
@@ -160,7 +856,7 @@ export class YardSimulator {
 
     if (availableBay) {
       this.assignTrainToInspection(trainId, availableBay);
-    } else {
+    } else if (train.status === 'arriving') {
       // Queue the train
       train.status = 'queued';
       this.emitEvent({
@@ -178,28 +874,10 @@ export class YardSimulator {
     
     if (!train || !bay || bay.status !== 'free') return;
 
-    // Move train to inspection bay
-    train.status = 'inspection';
-    train.locationNodeId = bayId;
-    train.lastUpdated = Date.now();
-
-    // Update bay status
-    bay.status = 'occupied';
-    bay.occupiedBy = trainId;
-    bay.inspectionStartTime = Date.now();
-
-    this.emitEvent({
-      type: 'train:moved',
-      trainId,
-      message: `Train ${train.number} moved to ${bay.name} for inspection`,
-      severity: 'info',
-      data: { fromNode: 'E1', toNode: bayId }
-    });
-
-    // Schedule inspection completion
-    setTimeout(() => {
-      this.completeInspection(trainId, bayId);
-    }, bay.inspectionDuration * this.state.simulationSpeed);
+    const plan = this.createPlan(trainId, bay.nodeId);
+    if (plan) {
+      this.executePlan(plan.id);
+    }
   }
 
   private completeInspection(trainId: string, bayId: string): void {
@@ -210,15 +888,11 @@ export class YardSimulator {
 
     // Simulate inspection result
     const passRate = train.failures.length > 0 ? 0.3 : 0.8;
-    const inspectionPassed = Math.random() < passRate;
-
-    // Free up the bay
-    bay.status = 'free';
-    bay.occupiedBy = undefined;
-    bay.inspectionStartTime = undefined;
+    const inspectionPassed = this.random() < passRate;
 
+    // The bay stays occupied until the train has pulled out of it
     train.status = 'moving';
-    train.lastUpdated = Date.now();
+    train.lastUpdated = this.clock.now();
 
     this.emitEvent({
       type: 'inspection:result',
@@ -229,6 +903,9 @@ export class YardSimulator {
     });
 
     if (inspectionPassed) {
+      // A passed inspection is what the rolling stock certificate certifies
+      this.renewCertificate(trainId, 'rolling-stock');
+
       // Generate siding recommendations
       const recommendations = this.generateSidingRecommendations(trainId);
       this.emitEvent({
@@ -236,17 +913,14 @@ export class YardSimulator {
         trainId,
         message: `Generated ${recommendations.length} siding recommendations for train ${train.number}`,
         severity: 'info',
-        data: { recommendations }
+        data: { recommendations, strategy: this.getStrategy().name }
       });
       
-      // Auto-assign if not priority or departSoon
-      if (!train.priority && !train.departSoon) {
-        const bestRecommendation = recommendations[0];
-        if (bestRecommendation) {
-          setTimeout(() => {
-            this.assignTrainToSiding(trainId, bestRecommendation.targetId, bestRecommendation.slot);
-          }, 1000);
-        }
+      // Auto-assign if not priority or departSoon, unless nobody is there to choose
+      if (this.autoAccept || (!train.priority && !train.departSoon)) {
+        this.sendToSiding(trainId, recommendations);
+      } else if (recommendations.length === 0) {
+        this.waitForSiding(trainId);
       }
     } else {
       // Generate workshop recommendations
@@ -256,232 +930,1284 @@ export class YardSimulator {
         trainId,
         message: `Generated ${recommendations.length} workshop recommendations for train ${train.number}`,
         severity: 'info',
-        data: { recommendations }
+        data: { recommendations, strategy: this.getStrategy().name }
       });
 
-      // Auto-assign to workshop if available
-      const bestRecommendation = recommendations[0];
-      if (bestRecommendation) {
-        setTimeout(() => {
-          this.assignTrainToWorkshop(trainId, bestRecommendation.targetId);
-        }, 1000);
-      }
+      this.sendToWorkshop(trainId, recommendations);
     }
-
-    // Check for queued trains
-    this.processQueuedTrains();
   }
 
   private processQueuedTrains(): void {
-    const queuedTrains = Object.values(this.state.trains).filter(train => train.status === 'queued');
+    // Trains already heading for a bay stay queued until their plan moves them
+    const queuedTrains = Object.values(this.state.trains).filter(train =>
+      train.status === 'queued' && !this.getExecutingPlan(train.id)
+    );
     queuedTrains.forEach(train => {
       this.autoAssignToInspection(train.id);
     });
   }
 
-  public generateSidingRecommendations(trainId: string): AssignmentRecommendation[] {
-    const train = this.state.trains[trainId];
-    if (!train) return [];
-
-    const recommendations: AssignmentRecommendation[] = [];
-
-    // Check each siding slot
-    Object.values(this.state.sidingSlots).forEach(slot => {
-      if (!slot.occupiedBy) {
-        const score = this.calculateSidingScore(train, slot);
-        const recommendation: AssignmentRecommendation = {
-          targetId: slot.id,
-          targetType: 'siding',
-          slot: slot.slot,
-          score,
-          reverseCost: slot.reverseCost || 1,
-          distanceEstimate: this.calculateDistance(train.locationNodeId, slot.id),
-          blockingRisk: slot.blockingRisk || 'medium',
-          ETAToPark: this.calculateETA(train.locationNodeId, slot.id),
-          estimatedShuntSteps: slot.slot === 'b' ? 1 : 0,
-          reasoning: this.generateSidingReasoning(train, slot),
-          warnings: this.generateSidingWarnings(train, slot)
-        };
-        recommendations.push(recommendation);
-      }
-    });
-
-    // Sort by score (higher is better)
-    return recommendations.sort((a, b) => b.score - a.score).slice(0, 5);
+  private getScoringPolicy(): ScoringPolicy {
+    return this.state.scoringPolicies[this.state.activeScoringPolicyId] || DEFAULT_SCORING_POLICY;
   }
 
-  public generateWorkshopRecommendations(trainId: string): AssignmentRecommendation[] {
-    const train = this.state.trains[trainId];
-    if (!train) return [];
-
-    const recommendations: AssignmentRecommendation[] = [];
+  // Add or overwrite a named policy; the built-in default stays as shipped
+  public saveScoringPolicy(policy: ScoringPolicy): string {
+    const id = !policy.id || policy.id === DEFAULT_POLICY_ID
+      ? this.ids.next('policy', this.state.scoringPolicies)
+      : policy.id;
+    this.state.scoringPolicies[id] = { ...policy, id };
 
-    // Check workshop requirements
-    const needsWheelAlignment = train.failures.includes('wheel-alignment');
-
-    Object.values(this.state.workshopLines).forEach(workshop => {
-      if (!workshop.occupiedBy) {
-        // If wheel alignment needed, only WL-4 is suitable
-        if (needsWheelAlignment && workshop.specialization !== 'wheel-alignment') {
-          return;
-        }
-
-        const score = this.calculateWorkshopScore(train, workshop);
-        const recommendation: AssignmentRecommendation = {
-          targetId: workshop.id,
-          targetType: 'workshop',
-          score,
-          reverseCost: 1,
-          distanceEstimate: this.calculateDistance(train.locationNodeId, workshop.nodeId),
-          blockingRisk: 'low',
-          ETAToPark: this.calculateETA(train.locationNodeId, workshop.nodeId),
-          estimatedShuntSteps: 0,
-          reasoning: this.generateWorkshopReasoning(train, workshop),
-          warnings: []
-        };
-        recommendations.push(recommendation);
-      }
+    this.emitEvent({
+      type: 'log:new',
+      message: `Scoring policy "${policy.name}" saved`,
+      severity: 'info',
+      data: { policyId: id }
     });
-
-    return recommendations.sort((a, b) => b.score - a.score);
+    return id;
   }
 
-  private calculateSidingScore(train: Train, slot: SidingSlot): number {
-    let score = 100;
-
-    // Prefer 'a' slots for departSoon trains
-    if (train.departSoon && slot.slot === 'a') score += 20;
-    if (train.departSoon && slot.slot === 'b') score -= 10;
-
-    // Lower reverse cost is better
-    score -= (slot.reverseCost || 1) * 5;
-
-    // Lower blocking risk is better
-    if (slot.blockingRisk === 'low') score += 10;
-    if (slot.blockingRisk === 'high') score -= 10;
+  public selectScoringPolicy(policyId: string): void {
+    const policy = this.state.scoringPolicies[policyId];
+    if (!policy) return;
 
-    // Priority trains get preference for lower-numbered sidings (closer to exit)
-    const sidingNum = parseInt(slot.sidingId.substring(1));
-    if (train.priority) {
-      score += (13 - sidingNum) * 2;
-    }
-
-    return Math.max(0, score);
+    this.state.activeScoringPolicyId = policyId;
+    this.emitEvent({
+      type: 'log:new',
+      message: `Recommendations now scored with "${policy.name}"`,
+      severity: 'info',
+      data: { policyId }
+    });
   }
 
-  private calculateWorkshopScore(train: Train, workshop: WorkshopLine): number {
-    let score = 100;
+  public deleteScoringPolicy(policyId: string): void {
+    const policy = this.state.scoringPolicies[policyId];
+    if (!policy || policyId === DEFAULT_POLICY_ID) return;
 
-    // Prefer specialized workshops for specific failures
-    if (train.failures.includes('wheel-alignment') && workshop.specialization === 'wheel-alignment') {
-      score += 50;
+    delete this.state.scoringPolicies[policyId];
+    if (this.state.activeScoringPolicyId === policyId) {
+      this.state.activeScoringPolicyId = DEFAULT_POLICY_ID;
     }
+    this.emitEvent({
+      type: 'log:new',
+      message: `Scoring policy "${policy.name}" deleted`,
+      severity: 'info',
+      data: { policyId }
+    });
+  }
 
-    // Priority trains get slight preference for WL-1 (assuming it's fastest)
-    if (train.priority && workshop.id === 'WL1') {
-      score += 10;
-    }
+  private getStrategy(): RecommendationStrategy {
+    return this.strategies[this.state.activeStrategyId] || this.strategies[DEFAULT_STRATEGY_ID];
+  }
 
-    return score;
+  public getStrategies(): RecommendationStrategy[] {
+    return Object.values(this.strategies);
   }
 
-  private generateSidingReasoning(train: Train, slot: SidingSlot): string[] {
-    const reasons: string[] = [];
-    
-    if (slot.slot === 'a') reasons.push('Front position - easier departure');
-    if (slot.blockingRisk === 'low') reasons.push('Low blocking risk');
-    if (train.departSoon && slot.slot === 'a') reasons.push('Suitable for morning departure');
-    if (train.priority) reasons.push('Priority train - close to exit');
+  // Add a strategy, or replace one with the same id; it is used once selected
+  public registerStrategy(strategy: RecommendationStrategy): void {
+    this.strategies[strategy.id] = strategy;
+    this.state.recommendationStrategies[strategy.id] = summarizeStrategy(strategy);
 
-    return reasons;
+    this.emitEvent({
+      type: 'log:new',
+      message: `Recommendation strategy "${strategy.name}" registered`,
+      severity: 'info',
+      data: { strategyId: strategy.id }
+    });
   }
 
-  private generateSidingWarnings(train: Train, slot: SidingSlot): string[] {
-    const warnings: string[] = [];
-    
-    if (slot.blockingRisk === 'high') warnings.push('High blocking risk for future operations');
-    if (slot.slot === 'b' && train.departSoon) warnings.push('Rear position may delay morning departure');
-    if ((slot.reverseCost || 0) > 2) warnings.push('High reverse cost for positioning');
+  public selectStrategy(strategyId: string): void {
+    const strategy = this.strategies[strategyId];
+    if (!strategy || strategyId === this.state.activeStrategyId) return;
 
-    return warnings;
+    this.state.activeStrategyId = strategyId;
+    this.emitEvent({
+      type: 'log:new',
+      message: `Recommendations now made by the "${strategy.name}" strategy`,
+      severity: 'info',
+      data: { strategyId }
+    });
   }
 
-  private generateWorkshopReasoning(train: Train, workshop: WorkshopLine): string[] {
-    const reasons: string[] = [];
-    
-    if (workshop.specialization === 'wheel-alignment' && train.failures.includes('wheel-alignment')) {
-      reasons.push('Specialized for wheel alignment repairs');
-    }
-    if (workshop.id === 'WL1') reasons.push('Primary workshop line');
-    
-    return reasons;
+  private createRecommendationContext(): RecommendationContext {
+    return {
+      state: this.state,
+      definition: this.definition,
+      policy: this.getScoringPolicy(),
+      now: this.clock.now(),
+      findRoute: (fromNodeId, toNodeId) => this.findRoute(fromNodeId, toNodeId),
+      estimateTravelTime: route => this.router.estimateTravelTime(route),
+      isSlotAvailable: slotId => !!this.state.sidingSlots[slotId] &&
+        !this.state.sidingSlots[slotId].occupiedBy &&
+        !this.isPassageHeld(slotId),
+      expectedArrivals: this.expectedArrivals.filter(arrival => arrival.arrivesAt > this.clock.now())
+    };
   }
 
-  private calculateDistance(fromNodeId: string, toNodeId: string): number {
-    const fromNode = this.definition.nodes[fromNodeId];
-    const toNode = this.definition.nodes[toNodeId];
-    
-    if (!fromNode || !toNode) return 999;
-    
-    const dx = toNode.x - fromNode.x;
-    const dy = toNode.y - fromNode.y;
-    return Math.sqrt(dx * dx + dy * dy);
+  public generateSidingRecommendations(trainId: string): AssignmentRecommendation[] {
+    const train = this.state.trains[trainId];
+    return train ? this.getStrategy().recommendSidings(train, this.createRecommendationContext()) : [];
+  }
+
+  public generateWorkshopRecommendations(trainId: string): AssignmentRecommendation[] {
+    const train = this.state.trains[trainId];
+    return train ? this.getStrategy().recommendWorkshops(train, this.createRecommendationContext()) : [];
+  }
+
+  public generateTestTrackRecommendations(trainId: string): AssignmentRecommendation[] {
+    const train = this.state.trains[trainId];
+    return train ? this.getStrategy().recommendTestTrack(train, this.createRecommendationContext()) : [];
+  }
+
+  // Trains can't pass through a slot another train is standing in;
+  // trains under way are kept apart by segment locks instead
+  private getBlockedNodes(fromNodeId: string): Set<string> {
+    const occupied = new Set(
+      Object.values(this.state.trains)
+        .filter(train => train.status !== 'departed')
+        .filter(train => this.reservations.getHeldSegments(train.id).length === 0)
+        .map(train => train.locationNodeId)
+    );
+    occupied.delete(fromNodeId);
+    return occupied;
+  }
+
+  private findRoute(fromNodeId: string, toNodeId: string): Route | null {
+    return this.router.findRoute(fromNodeId, toNodeId, { avoidNodes: this.getBlockedNodes(fromNodeId) });
+  }
+
+  // Resolve an assignment target (siding slot, workshop line, bay or test track) to its node
+  private resolveTargetNode(targetId: string): string | undefined {
+    if (this.state.workshopLines[targetId]) return this.state.workshopLines[targetId].nodeId;
+    if (this.state.inspectionBays[targetId]) return this.state.inspectionBays[targetId].nodeId;
+    return this.definition.nodes[targetId] ? targetId : undefined;
   }
 
-  private calculateETA(fromNodeId: string, toNodeId: string): number {
-    const distance = this.calculateDistance(fromNodeId, toNodeId);
-    const avgSpeed = 50; // pixels per second
-    return (distance / avgSpeed) * 1000; // Convert to milliseconds
+  // Plan a move and add yard-state warnings; the plan is stored but not announced
+  private createPlan(trainId: string, targetId: string): Plan | null {
+    const train = this.state.trains[trainId];
+    const targetNodeId = this.resolveTargetNode(targetId);
+    if (!train || !targetNodeId) return null;
+
+    const plan = this.planner.planMove(
+      trainId,
+      train.locationNodeId,
+      targetNodeId,
+      { avoidNodes: this.getBlockedNodes(train.locationNodeId), switches: this.state.switches }
+    );
+
+    if (!plan) {
+      this.emitEvent({
+        type: 'error',
+        trainId,
+        message: `No route for train ${train.number} from ${train.locationNodeId} to ${targetId}`,
+        severity: 'error',
+        data: { fromNode: train.locationNodeId, toNode: targetNodeId }
+      });
+      return null;
+    }
+
+    // Warnings that depend on what the rest of the yard is doing right now
+    const conflicts = this.reservations.getConflicts(trainId, plan.requiredLocks);
+    if (conflicts.length > 0) {
+      plan.warnings.push(`${conflicts.length} segment(s) currently locked by ${this.describeHolders(conflicts)} - execution will wait`);
+    }
+    const occupant = this.getTargetOccupant(targetNodeId);
+    if (occupant && occupant !== trainId) {
+      plan.warnings.push(`${this.describeNode(targetNodeId)} is already occupied`);
+    }
+    if (this.getExecutingPlan(trainId)) {
+      plan.warnings.push(`Train ${train.number} is still moving - plan assumes it stops at ${train.locationNodeId}`);
+    }
+
+    // Only the latest preview per train is kept
+    Object.values(this.state.activePlans)
+      .filter(existing => existing.trainId === trainId && existing.status === 'preview')
+      .forEach(existing => delete this.state.activePlans[existing.id]);
+    this.state.activePlans[plan.id] = plan;
+
+    return plan;
   }
 
-  public assignTrainToSiding(trainId: string, slotId: string, slot?: 'a' | 'b'): void {
+  public previewPlan(trainId: string, targetId: string): Plan | null {
+    const plan = this.createPlan(trainId, targetId);
+    if (!plan) return null;
+
+    const train = this.state.trains[trainId];
+    this.emitEvent({
+      type: 'plan:preview',
+      trainId,
+      message: `Plan for train ${train.number} to ${targetId}: ${plan.steps.length} steps, ${Math.round(plan.estimatedDuration / 1000)}s`,
+      severity: plan.warnings.length > 0 ? 'warning' : 'info',
+      data: { plan, strategy: this.getStrategy().name }
+    });
+
+    return plan;
+  }
+
+  public assignTrainToSiding(trainId: string, slotId: string, slot?: 'a' | 'b'): boolean {
     const train = this.state.trains[trainId];
     const sidingSlot = this.state.sidingSlots[slotId];
     
-    if (!train || !sidingSlot || sidingSlot.occupiedBy) return;
+    if (!train || !sidingSlot || sidingSlot.occupiedBy) return false;
+
+    const plan = this.createPlan(trainId, slotId);
+    return !!plan && this.executePlan(plan.id);
+  }
+
+  // Move a train that is done with its bay or workshop line on to the best siding. With none to
+  // be had it waits where it is, still holding its place, until a slot or a route frees up.
+  private sendToSiding(trainId: string, recommendations = this.generateSidingRecommendations(trainId)): void {
+    const best = recommendations[0];
+    if (!best) {
+      this.waitForSiding(trainId);
+      return;
+    }
+
+    this.clock.schedule(() => {
+      if (!this.assignTrainToSiding(trainId, best.targetId, best.slot)) {
+        this.waitForSiding(trainId);
+      }
+    }, 1000);
+  }
 
-    // Execute the assignment
-    train.status = 'parked';
-    train.locationNodeId = slotId;
-    train.lastUpdated = Date.now();
+  private waitForSiding(trainId: string): void {
+    const train = this.state.trains[trainId];
+    if (!train || this.awaitingSiding.has(trainId)) return;
+
+    this.awaitingSiding.add(trainId);
+    this.emitEvent({
+      type: 'train:updated',
+      trainId,
+      message: `Train ${train.number} waiting at ${this.describeNode(train.locationNodeId)} - no siding it can reach is free`,
+      severity: 'warning'
+    });
+  }
+
+  // Called whenever a plan ends, as that is when slots and the routes into them come free
+  private processAwaitingSiding(): void {
+    [...this.awaitingSiding].forEach(trainId => {
+      const train = this.state.trains[trainId];
+      if (!train || train.status !== 'moving' || this.getExecutingPlan(trainId)) {
+        this.awaitingSiding.delete(trainId);
+        return;
+      }
 
-    sidingSlot.occupiedBy = trainId;
+      const best = this.generateSidingRecommendations(trainId)[0];
+      if (best && this.assignTrainToSiding(trainId, best.targetId, best.slot)) {
+        this.awaitingSiding.delete(trainId);
+      }
+    });
+  }
+
+  // Move a train that failed inspection on to the best workshop line. With none to be had it
+  // waits in its bay, as with sidings, until a line or the route to one frees up.
+  private sendToWorkshop(trainId: string, recommendations = this.generateWorkshopRecommendations(trainId)): void {
+    const best = recommendations[0];
+    if (!best) {
+      this.waitForWorkshop(trainId);
+      return;
+    }
+
+    this.clock.schedule(() => {
+      if (!this.assignTrainToWorkshop(trainId, best.targetId)) {
+        this.waitForWorkshop(trainId);
+      }
+    }, 1000);
+  }
 
+  private waitForWorkshop(trainId: string): void {
+    const train = this.state.trains[trainId];
+    if (!train || this.awaitingWorkshop.has(trainId)) return;
+
+    this.awaitingWorkshop.add(trainId);
     this.emitEvent({
-      type: 'train:moved',
+      type: 'train:updated',
       trainId,
-      message: `Train ${train.number} parked in ${sidingSlot.sidingId}-${sidingSlot.slot}`,
-      severity: 'success',
-      data: { targetId: slotId, slot: sidingSlot.slot }
+      message: `Train ${train.number} waiting at ${this.describeNode(train.locationNodeId)} - no workshop line it can reach is free`,
+      severity: 'warning'
     });
   }
 
-  public assignTrainToWorkshop(trainId: string, workshopId: string): void {
+  // Called whenever a plan ends, as that is when lines and the routes into them come free
+  private processAwaitingWorkshop(): void {
+    [...this.awaitingWorkshop].forEach(trainId => {
+      const train = this.state.trains[trainId];
+      if (!train || train.status !== 'moving' || this.getExecutingPlan(trainId)) {
+        this.awaitingWorkshop.delete(trainId);
+        return;
+      }
+
+      const best = this.generateWorkshopRecommendations(trainId)[0];
+      if (best && this.assignTrainToWorkshop(trainId, best.targetId)) {
+        this.awaitingWorkshop.delete(trainId);
+      }
+    });
+  }
+
+  public assignTrainToWorkshop(trainId: string, workshopId: string): boolean {
     const train = this.state.trains[trainId];
     const workshop = this.state.workshopLines[workshopId];
     
-    if (!train || !workshop || workshop.occupiedBy) return;
+    if (!train || !workshop || workshop.occupiedBy) return false;
+
+    const plan = this.createPlan(trainId, workshopId);
+    return !!plan && this.executePlan(plan.id);
+  }
+
+  public assignTrainToTestTrack(trainId: string, nodeId: string): void {
+    const train = this.state.trains[trainId];
+    if (!train || this.definition.nodes[nodeId]?.type !== 'test') return;
+    if (!this.generateTestTrackRecommendations(trainId).some(rec => rec.targetId === nodeId)) return;
+
+    const plan = this.createPlan(trainId, nodeId);
+    if (plan) {
+      this.executePlan(plan.id);
+    }
+  }
+
+  // Train parked in slot 'a' of the same siding, standing between a slot 'b' train and the exit
+  private getFrontBlocker(train: Train): Train | undefined {
+    const slot = this.state.sidingSlots[train.locationNodeId];
+    if (!slot || slot.slot !== 'b') return undefined;
+
+    const front = Object.values(this.state.sidingSlots)
+      .find(other => other.sidingId === slot.sidingId && other.slot === 'a');
+    const blockerId = front?.occupiedBy;
+    return blockerId && blockerId !== train.id ? this.state.trains[blockerId] : undefined;
+  }
 
-    // Execute the assignment
-    train.status = 'workshop';
-    train.locationNodeId = workshopId;
-    train.lastUpdated = Date.now();
+  // Send a train out of the yard through an exit, shunting the train in front of it first if needed.
+  // Returns false when the departure cannot even be started.
+  public departTrain(trainId: string, exitId: string = this.definition.exitPoints[0]): boolean {
+    const train = this.state.trains[trainId];
+    if (!train) return false;
+
+    this.pendingDepartures.delete(trainId);
+
+    if ((train.status !== 'parked' && train.status !== 'test') || this.getExecutingPlan(trainId)) {
+      this.emitEvent({
+        type: 'error',
+        trainId,
+        message: `Train ${train.number} cannot depart while ${train.status}`,
+        severity: 'warning'
+      });
+      return false;
+    }
 
-    workshop.status = 'occupied';
-    workshop.occupiedBy = trainId;
+    const expired = getExpiredCertificates(train, this.clock.now());
+    if (expired.length > 0) {
+      this.emitEvent({
+        type: 'error',
+        trainId,
+        message: `Train ${train.number} cannot depart - ${expired.map(c => describeExpiry(c, this.clock.now())).join(', ')}`,
+        severity: 'error',
+        data: { certificates: expired.map(c => c.type) }
+      });
+      return false;
+    }
 
+    const blocker = this.getFrontBlocker(train);
+    if (blocker) {
+      // Already on the move: try again once it has stopped
+      if (this.getExecutingPlan(blocker.id)) {
+        this.pendingDepartures.set(trainId, exitId);
+        return true;
+      }
+
+      const shuntTarget = this.generateSidingRecommendations(blocker.id)[0];
+      const shuntPlan = shuntTarget && this.createPlan(blocker.id, shuntTarget.targetId);
+      if (!shuntPlan) {
+        this.emitEvent({
+          type: 'error',
+          trainId,
+          message: `Train ${train.number} cannot depart - no free slot to shunt ${blocker.number} out of ${this.describeNode(blocker.locationNodeId)}`,
+          severity: 'error'
+        });
+        return false;
+      }
+
+      this.emitEvent({
+        type: 'train:updated',
+        trainId,
+        message: `Shunting ${blocker.number} from ${this.describeNode(blocker.locationNodeId)} to ${this.describeNode(shuntTarget.targetId)} so ${train.number} can depart`,
+        severity: 'info',
+        data: { blockerId: blocker.id, shuntPlanId: shuntPlan.id }
+      });
+      if (!this.executePlan(shuntPlan.id)) return false;
+      this.pendingDepartures.set(trainId, exitId);
+      return true;
+    }
+
+    const plan = this.createPlan(trainId, exitId);
+    return !!plan && this.executePlan(plan.id);
+  }
+
+  private processPendingDepartures(): void {
+    [...this.pendingDepartures].forEach(([trainId, exitId]) => {
+      const train = this.state.trains[trainId];
+      const blocker = train && this.getFrontBlocker(train);
+      if (!blocker || !this.getExecutingPlan(blocker.id)) {
+        if (!this.departTrain(trainId, exitId)) {
+          this.missDeparture(trainId, 'could not be sent to the exit');
+        }
+      }
+    });
+  }
+
+  private findDeparture(trainId: string): DepartureSlot | undefined {
+    return Object.values(this.state.departures)
+      .filter(departure => departure.trainId === trainId && (departure.status === 'planned' || departure.status === 'dispatched'))
+      .sort((a, b) => a.departureTime - b.departureTime)[0];
+  }
+
+  // Stabled, fit units not booked on any service that could take this one instead
+  private getSpareTrains(booked: Train): Train[] {
+    const now = this.clock.now();
+    return Object.values(this.state.trains)
+      .filter(train =>
+        train.id !== booked.id &&
+        train.status === 'parked' &&
+        train.fitness >= MIN_SERVICE_FITNESS &&
+        train.failures.length === 0 &&
+        getExpiredCertificates(train, now).length === 0 &&
+        !this.findDeparture(train.id)
+      );
+  }
+
+  private scheduleDepartures(): void {
+    Object.keys(this.state.departures).forEach(departureId => this.scheduleDeparture(departureId));
+  }
+
+  private cancelDepartureTimers(departureId: string): void {
+    (this.departureTimers[departureId] || []).forEach(timerId => this.clock.cancel(timerId));
+    delete this.departureTimers[departureId];
+  }
+
+  // Each service gets a readiness review ahead of time, which then books the dispatch
+  private scheduleDeparture(departureId: string): void {
+    this.cancelDepartureTimers(departureId);
+
+    const departure = this.state.departures[departureId];
+    if (!departure || departure.status !== 'planned') return;
+
+    const reviewIn = departure.departureTime - DEPARTURE_REVIEW_MS - this.clock.now();
+    this.departureTimers[departureId] = [
+      this.clock.schedule(() => this.reviewDeparture(departureId), reviewIn)
+    ];
+  }
+
+  // Where the train stands, how fit it is and how long it needs to reach the exit
+  private checkDepartureReadiness(departure: DepartureSlot): { warnings: string[]; leadMs: number } {
+    const train = departure.trainId ? this.state.trains[departure.trainId] : undefined;
+    if (!train) {
+      return { warnings: ['No train assigned'], leadMs: 0 };
+    }
+
+    const warnings: string[] = [];
+    if (train.fitness < MIN_SERVICE_FITNESS) {
+      warnings.push(`${train.number} fitness ${train.fitness}% is below the ${MIN_SERVICE_FITNESS}% needed for service`);
+    }
+    if (train.failures.length > 0) {
+      warnings.push(`${train.number} has open failures: ${train.failures.join(', ')}`);
+    }
+    const cleaning = this.getActiveCleaning(train.id);
+    if (cleaning) {
+      const finish = this.getCleaningFinish(cleaning);
+      if (finish > departure.departureTime) {
+        warnings.push(`${train.number} ${CLEANING_LABELS[cleaning.type].toLowerCase()} runs until ${new Date(finish).toLocaleTimeString()}, past departure`);
+      }
+    } else if (train.status !== 'parked' && train.status !== 'test') {
+      warnings.push(`${train.number} is ${train.status}, not stabled for dispatch`);
+    }
+    // Cleans falling due before the train leaves, unless a job will catch them in time
+    getOverdueCleaning(train, departure.departureTime)
+      .filter(type => !Object.values(this.state.cleaningJobs).some(job =>
+        job.trainId === train.id &&
+        job.type === type &&
+        (job.status === 'scheduled' || job.status === 'in-progress') &&
+        this.getCleaningFinish(job) <= departure.departureTime
+      ))
+      .forEach(type => {
+        warnings.push(getOverdueCleaning(train, this.clock.now()).includes(type)
+          ? `${train.number} - ${describeOverdue(train, type, this.clock.now())}`
+          : `${train.number} - ${CLEANING_LABELS[type].toLowerCase()} falls due before departure`);
+      });
+    // Anything lapsing before the train leaves blocks the dispatch just the same
+    getExpiredCertificates(train, departure.departureTime).forEach(certificate => {
+      warnings.push(`${train.number} - ${describeExpiry(certificate, this.clock.now())}${certificate.expiresAt > this.clock.now() ? ', before departure' : ''}`);
+    });
+
+    // High-mileage units should rest while a fresher one is free to run
+    const spares = this.getSpareTrains(train);
+    const fleetAverage = getFleetMileage(Object.values(this.state.trains)).average;
+    if (shouldRest(train, fleetAverage)) {
+      const fresher = spares
+        .filter(spare => spare.mileage < train.mileage)
+        .sort((a, b) => a.mileage - b.mileage)[0];
+      if (fresher) {
+        warnings.push(`${train.number} mileage is ${Math.round(getRelativeMileage(train, fleetAverage) * 100)}% above fleet average - ${fresher.number} could run instead`);
+      }
+    }
+
+    // Likewise a plain or on-schedule train should give way to a wrap running short of its hours
+    const contracts = Object.values(this.state.brandingContracts);
+    if (getExposureShortfall(train, contracts, this.clock.now()) < 1) {
+      const underExposed = spares
+        .map(spare => ({ spare, shortfall: getExposureShortfall(spare, contracts, this.clock.now()) }))
+        .filter(candidate => candidate.shortfall >= 1)
+        .sort((a, b) => b.shortfall - a.shortfall)[0];
+      if (underExposed) {
+        const contract = getTrainContract(underExposed.spare, contracts);
+        warnings.push(`${underExposed.spare.number} carries the ${contract?.advertiser} wrap ${Math.round(underExposed.shortfall)}h behind contract - could run instead of ${train.number}`);
+      }
+    }
+
+    let leadMs = 0;
+    const avoidNodes = this.getBlockedNodes(train.locationNodeId);
+    const blocker = this.getFrontBlocker(train);
+    if (blocker) {
+      leadMs += SHUNT_ALLOWANCE_MS;
+      avoidNodes.delete(blocker.locationNodeId);
+      warnings.push(`${train.number} is behind ${blocker.number} in ${this.describeNode(train.locationNodeId)} - needs a shunt first`);
+    }
+
+    const plan = this.planner.planMove(train.id, train.locationNodeId, departure.exitPointId, {
+      avoidNodes,
+      switches: this.state.switches
+    });
+    if (plan) {
+      leadMs += plan.estimatedDuration;
+    } else {
+      warnings.push(`No route from ${this.describeNode(train.locationNodeId)} to ${this.describeNode(departure.exitPointId)}`);
+    }
+
+    const lateByMs = this.clock.now() + leadMs - departure.departureTime;
+    if (lateByMs > 0) {
+      warnings.push(`${train.number} will leave about ${Math.ceil(lateByMs / 60000)} min late`);
+    }
+
+    return { warnings, leadMs };
+  }
+
+  private announceDepartureWarnings(departure: DepartureSlot): void {
+    departure.warnings.forEach(warning => {
+      this.emitEvent({
+        type: 'train:updated',
+        trainId: departure.trainId,
+        message: `${departure.serviceName}: ${warning}`,
+        severity: 'warning',
+        data: { departureId: departure.id }
+      });
+    });
+  }
+
+  private reviewDeparture(departureId: string): void {
+    const departure = this.state.departures[departureId];
+    if (!departure || departure.status !== 'planned') return;
+
+    const { warnings, leadMs } = this.checkDepartureReadiness(departure);
+    departure.warnings = warnings;
+    this.announceDepartureWarnings(departure);
+
+    // Leave early enough to reach the exit on time, or straight away if already behind
+    const dispatchIn = departure.departureTime - leadMs - DEPARTURE_MARGIN_MS - this.clock.now();
+    this.departureTimers[departureId] = [
+      this.clock.schedule(() => this.dispatchDeparture(departureId), dispatchIn)
+    ];
+  }
+
+  private dispatchDeparture(departureId: string): void {
+    const departure = this.state.departures[departureId];
+    if (!departure || departure.status !== 'planned') return;
+    delete this.departureTimers[departureId];
+
+    const train = departure.trainId ? this.state.trains[departure.trainId] : undefined;
+    if (!train) {
+      departure.status = 'missed';
+      this.emitEvent({
+        type: 'log:new',
+        message: `${departure.serviceName} missed - no train assigned`,
+        severity: 'warning',
+        data: { departureId }
+      });
+      return;
+    }
+
+    departure.status = 'dispatched';
+    departure.dispatchedAt = this.clock.now();
     this.emitEvent({
-      type: 'train:moved',
+      type: 'train:updated',
+      trainId: train.id,
+      message: `Dispatching ${train.number} for ${departure.serviceName} at ${new Date(departure.departureTime).toLocaleTimeString()} via ${this.describeNode(departure.exitPointId)}`,
+      severity: 'info',
+      data: { departureId }
+    });
+
+    if (!this.departTrain(train.id, departure.exitPointId)) {
+      this.missDeparture(train.id, 'could not be dispatched');
+    }
+  }
+
+  // The booked service goes without this train
+  private missDeparture(trainId: string, reason: string): void {
+    const departure = this.findDeparture(trainId);
+    const train = this.state.trains[trainId];
+    if (!departure || !train) return;
+
+    departure.status = 'missed';
+    train.departSoon = false;
+    this.emitEvent({
+      type: 'train:updated',
+      trainId,
+      message: `${departure.serviceName} missed - ${train.number} ${reason}`,
+      severity: 'error',
+      data: { departureId: departure.id }
+    });
+  }
+
+  private completeDeparture(trainId: string): void {
+    const departure = this.findDeparture(trainId);
+    const train = this.state.trains[trainId];
+    train.departSoon = false;
+    train.mileage += SERVICE_DAY_KM;
+    this.recordExposure(trainId);
+    if (!departure) return;
+
+    this.cancelDepartureTimers(departure.id);
+    departure.status = 'departed';
+    departure.departedAt = this.clock.now();
+    departure.lateByMs = Math.max(0, departure.departedAt - departure.departureTime);
+
+    const late = departure.lateByMs > DEPARTURE_MARGIN_MS;
+    this.emitEvent({
+      type: 'train:updated',
       trainId,
-      message: `Train ${train.number} sent to ${workshop.name}`,
+      message: late
+        ? `${departure.serviceName} left ${Math.ceil(departure.lateByMs / 60000)} min late with ${train.number}`
+        : `${departure.serviceName} left on time with ${train.number}`,
+      severity: late ? 'warning' : 'success',
+      data: { departureId: departure.id, lateByMs: departure.lateByMs }
+    });
+  }
+
+  // Rank the fleet for the next morning; nothing changes until the plan is accepted
+  public planInduction(): InductionPlan {
+    const plan = this.induction.plan(this.state, this.clock.now());
+    this.state.inductionPlan = plan;
+
+    const count = (decision: string) => plan.decisions.filter(d => d.decision === decision).length;
+    this.emitEvent({
+      type: 'log:new',
+      message: `Induction plan: ${count('service')} service, ${count('standby')} standby, ${count('hold')} held`,
       severity: 'info',
-      data: { workshopId }
+      data: { planId: plan.id }
+    });
+    return plan;
+  }
+
+  // Book the proposed trains onto their services and take everyone else off the timetable
+  public acceptInduction(planId: string): void {
+    const plan = this.state.inductionPlan;
+    if (!plan || plan.id !== planId || plan.status !== 'proposed') return;
+
+    const proposed = new Map(
+      plan.decisions
+        .filter(decision => decision.decision === 'service' && decision.departureId)
+        .map(decision => [decision.departureId!, decision.trainId])
+    );
+
+    Object.values(this.state.departures)
+      .filter(departure => departure.status === 'planned' && departure.trainId && proposed.get(departure.id) !== departure.trainId)
+      .forEach(departure => this.assignDeparture(departure.id, undefined));
+    proposed.forEach((trainId, departureId) => {
+      if (this.state.departures[departureId]?.trainId !== trainId) {
+        this.assignDeparture(departureId, trainId);
+      }
     });
 
-    // Simulate workshop completion
-    setTimeout(() => {
-      this.completeWorkshop(trainId, workshopId);
-    }, 10000 * this.state.simulationSpeed); // 10 seconds
+    plan.status = 'accepted';
+    this.emitEvent({
+      type: 'log:new',
+      message: `Induction plan accepted - ${proposed.size} train(s) booked for service`,
+      severity: 'success',
+      data: { planId }
+    });
+  }
+
+  // Book a train onto a service, or clear the service with no trainId; warns straight away
+  // if the train looks unlikely to make it
+  public assignDeparture(departureId: string, trainId?: string): void {
+    const departure = this.state.departures[departureId];
+    if (!departure || departure.status !== 'planned') return;
+
+    const train = trainId ? this.state.trains[trainId] : undefined;
+    if (trainId && (!train || train.status === 'departed')) return;
+
+    // A train serves one departure at a time
+    if (train) {
+      const current = this.findDeparture(train.id);
+      if (current && current.id !== departureId) {
+        if (current.status === 'dispatched') return;
+        current.trainId = undefined;
+        current.warnings = [];
+        this.scheduleDeparture(current.id);
+      }
+    }
+
+    const previous = departure.trainId ? this.state.trains[departure.trainId] : undefined;
+    if (previous && previous.id !== trainId) {
+      previous.departSoon = false;
+    }
+
+    departure.trainId = train?.id;
+    departure.warnings = [];
+    if (train) {
+      train.departSoon = true;
+      departure.warnings = this.checkDepartureReadiness(departure).warnings;
+    }
+
+    this.emitEvent({
+      type: 'train:updated',
+      trainId: train?.id,
+      message: train
+        ? `${train.number} booked for ${departure.serviceName} at ${new Date(departure.departureTime).toLocaleTimeString()}`
+        : `${departure.serviceName} has no train booked`,
+      severity: 'info',
+      data: { departureId }
+    });
+    this.announceDepartureWarnings(departure);
+    this.scheduleDeparture(departureId);
+  }
+
+  // Earliest service nobody is booked on yet
+  private assignToNextDeparture(trainId: string): void {
+    const open = Object.values(this.state.departures)
+      .filter(departure => departure.status === 'planned' && !departure.trainId)
+      .sort((a, b) => a.departureTime - b.departureTime)[0];
+
+    if (open) {
+      this.assignDeparture(open.id, trainId);
+      return;
+    }
+
+    const train = this.state.trains[trainId];
+    train.departSoon = false;
+    this.emitEvent({
+      type: 'train:updated',
+      trainId,
+      message: `No open departure for ${train.number} - add a service to the timetable`,
+      severity: 'warning'
+    });
+  }
+
+  public addDeparture(departureTime: number, exitPointId: string = this.definition.exitPoints[0], serviceName?: string): string {
+    const id = this.ids.next('dep', this.state.departures);
+    this.state.departures[id] = {
+      id,
+      serviceName: serviceName || `Service ${100 + Object.keys(this.state.departures).length + 1}`,
+      departureTime,
+      exitPointId,
+      status: 'planned',
+      warnings: []
+    };
+
+    this.emitEvent({
+      type: 'log:new',
+      message: `${this.state.departures[id].serviceName} added at ${new Date(departureTime).toLocaleTimeString()}`,
+      severity: 'info',
+      data: { departureId: id }
+    });
+    this.scheduleDeparture(id);
+    return id;
+  }
+
+  public removeDeparture(departureId: string): void {
+    const departure = this.state.departures[departureId];
+    if (!departure || departure.status === 'dispatched') return;
+
+    const train = departure.trainId ? this.state.trains[departure.trainId] : undefined;
+    if (train && departure.status === 'planned') {
+      train.departSoon = false;
+    }
+
+    this.cancelDepartureTimers(departureId);
+    delete this.state.departures[departureId];
+
+    this.emitEvent({
+      type: 'log:new',
+      message: `${departure.serviceName} removed from the timetable`,
+      severity: 'info',
+      data: { departureId }
+    });
+  }
+
+  // Discard a preview the operator decided not to run
+  public cancelPlan(planId: string): void {
+    const plan = this.state.activePlans[planId];
+    if (!plan || plan.status !== 'preview') return;
+
+    delete this.state.activePlans[planId];
+  }
+
+  private getExecutingPlan(trainId: string): Plan | undefined {
+    return Object.values(this.state.activePlans)
+      .find(plan => plan.trainId === trainId && plan.status === 'executing');
+  }
+
+  public executePlan(planId: string): boolean {
+    const plan = this.state.activePlans[planId];
+    if (!plan || plan.status !== 'preview') return false;
+
+    const train = this.state.trains[plan.trainId];
+    if (!train) {
+      this.failPlan(plan, 'Train no longer in the yard');
+      return false;
+    }
+    if (this.getExecutingPlan(train.id)) {
+      this.failPlan(plan, `Train ${train.number} is already executing a plan`);
+      return false;
+    }
+    if (plan.steps[0]?.fromNode !== train.locationNodeId) {
+      this.failPlan(plan, `Train ${train.number} has moved since the plan was made`);
+      return false;
+    }
+    if (!this.claimTarget(train.id, plan.targetId)) {
+      this.failPlan(plan, `${this.describeNode(plan.targetId)} is already occupied`);
+      return false;
+    }
+
+    plan.status = 'executing';
+    train.plannedMoves = plan.steps;
+
+    this.emitEvent({
+      type: 'plan:start',
+      trainId: train.id,
+      message: `Train ${train.number} started plan to ${this.describeNode(plan.targetId)}`,
+      severity: 'info',
+      data: { planId: plan.id, targetId: plan.targetId, estimatedDuration: plan.estimatedDuration }
+    });
+
+    this.runPlanStep(plan, 0);
+    return true;
+  }
+
+  private runPlanStep(plan: Plan, index: number): void {
+    if (plan.status !== 'executing') return;
+
+    const train = this.state.trains[plan.trainId];
+    if (!train) {
+      this.failPlan(plan, 'Train no longer in the yard');
+      return;
+    }
+
+    if (index >= plan.steps.length) {
+      this.completePlan(plan);
+      return;
+    }
+
+    const step = plan.steps[index];
+    const finishStep = (durationMs = step.durationMs) => {
+      this.clock.schedule(() => {
+        if (plan.status !== 'executing') return;
+        this.applyPlanStep(plan, step);
+        if (plan.status !== 'executing') return;
+
+        this.emitEvent({
+          type: 'plan:step',
+          trainId: train.id,
+          message: `Train ${train.number}: ${step.description}`,
+          severity: 'info',
+          data: { planId: plan.id, stepId: step.id, stepIndex: index, stepCount: plan.steps.length }
+        });
+        this.runPlanStep(plan, index + 1);
+      }, durationMs);
+    };
+
+    switch (step.type) {
+      case 'reserve': {
+        const granted = this.reservations.request(train.id, step.segments, () => finishStep());
+        if (!granted) {
+          const conflicts = this.reservations.getConflicts(train.id, step.segments);
+          this.emitEvent({
+            type: 'train:updated',
+            trainId: train.id,
+            message: `Train ${train.number} waiting for route to ${this.describeNode(plan.targetId)}` +
+              (conflicts.length > 0 ? ` - track held by ${this.describeHolders(conflicts)}` : ''),
+            severity: 'warning',
+            data: { planId: plan.id, conflicts }
+          });
+        }
+        break;
+      }
+      case 'move': {
+        // Something may have stopped on the path since the plan was made
+        const blocked = this.getBlockedNodes(train.locationNodeId);
+        const obstruction = (step.path || [step.toNode]).slice(1).find(nodeId => blocked.has(nodeId));
+        if (obstruction) {
+          this.failPlan(plan, `Path blocked at ${this.describeNode(obstruction)}`);
+          return;
+        }
+
+        const misaligned = this.findMisalignedSwitch(plan, index);
+        if (misaligned) {
+          const sw = this.state.switches[misaligned];
+          this.failPlan(plan, `Switch ${misaligned} is set towards ${sw.position}`);
+          return;
+        }
+
+        if (plan.steps.findIndex(s => s.type === 'move') === index) {
+          // Whoever gets the spot next has to wait for our locks on the way out
+          this.vacateNode(train.id, train.locationNodeId);
+        }
+        train.status = 'moving';
+        train.lastUpdated = this.clock.now();
+        finishStep();
+        break;
+      }
+      case 'switch': {
+        // Positions may have changed since planning; only throw what is actually wrong now
+        const sw = this.state.switches[step.fromNode];
+        const [entry, , exit] = step.path || [undefined, step.fromNode, step.toNode];
+        const leg = sw && getSwitchLeg(sw.positions, entry, exit);
+        finishStep(!leg || sw.position === leg ? 0 : sw.throwTimeMs);
+        break;
+      }
+      default:
+        finishStep();
+    }
+  }
+
+  private applyPlanStep(plan: Plan, step: PlanStep): void {
+    const train = this.state.trains[plan.trainId];
+
+    switch (step.type) {
+      case 'move': {
+        const path = step.path || [step.fromNode, step.toNode];
+        const fromNode = this.definition.nodes[path[path.length - 2]];
+        const toNode = this.definition.nodes[step.toNode];
+        if (toNode.x !== fromNode.x) {
+          train.orientation = toNode.x > fromNode.x ? 'east' : 'west';
+        }
+        train.locationNodeId = step.toNode;
+        train.lastUpdated = this.clock.now();
+        break;
+      }
+      case 'switch': {
+        const sw = this.state.switches[step.fromNode];
+        const [entry, , exit] = step.path || [undefined, step.fromNode, step.toNode];
+        const leg = sw && getSwitchLeg(sw.positions, entry, exit);
+        if (leg && sw.position !== leg) {
+          this.throwSwitch(step.fromNode, leg, train.id);
+        }
+        break;
+      }
+      case 'release':
+        this.reservations.release(train.id, step.segments);
+        break;
+    }
+  }
+
+  private throwSwitch(switchId: string, position: string, trainId?: string): void {
+    const sw = this.state.switches[switchId];
+    if (!sw || sw.position === position || !sw.positions.includes(position)) return;
+
+    const previous = sw.position;
+    sw.position = position;
+    sw.lastChanged = this.clock.now();
+
+    this.emitEvent({
+      type: 'switch:changed',
+      trainId,
+      message: `Switch ${switchId} set towards ${this.describeNode(position)}`,
+      severity: 'info',
+      data: { switchId, position, previous }
+    });
+  }
+
+  // A switch only passes a train if it lies towards the leg the train enters or leaves by;
+  // lying towards the trunk is never enough, as every leg shares it
+  private findMisalignedSwitch(plan: Plan, moveIndex: number): string | undefined {
+    const step = plan.steps[moveIndex];
+    const path = step.path || [step.fromNode, step.toNode];
+
+    // The train may already be standing on a switch from the previous move
+    const previousMove = plan.steps.slice(0, moveIndex).reverse().find(s => s.type === 'move');
+    const previousPath = previousMove?.path || [];
+    const cameFrom = previousPath[previousPath.length - 2];
+
+    for (let i = 0; i < path.length - 1; i++) {
+      const sw = this.state.switches[path[i]];
+      if (!sw) continue;
+
+      const entry = i === 0 ? cameFrom : path[i - 1];
+      const leg = getSwitchLeg(sw.positions, entry, path[i + 1]);
+      if (leg && sw.position !== leg) return sw.id;
+    }
+    return undefined;
+  }
+
+  private completePlan(plan: Plan): void {
+    const train = this.state.trains[plan.trainId];
+
+    // Anything not released by an explicit step goes now
+    this.reservations.release(train.id);
+    plan.status = 'completed';
+    train.plannedMoves = undefined;
+    train.lastUpdated = this.clock.now();
+
+    this.emitEvent({
+      type: 'plan:complete',
+      trainId: train.id,
+      message: `Train ${train.number} completed plan to ${this.describeNode(plan.targetId)}`,
+      severity: 'success',
+      data: { planId: plan.id, targetId: plan.targetId, status: plan.status }
+    });
+
+    this.handleArrival(train.id, plan.targetId);
+    this.processPendingDepartures();
+    this.processAwaitingSiding();
+    this.processAwaitingWorkshop();
+    this.processCleaningQueue();
+  }
+
+  private failPlan(plan: Plan, reason: string): void {
+    const train = this.state.trains[plan.trainId];
+    const wasExecuting = plan.status === 'executing';
+
+    plan.status = 'failed';
+    plan.failureReason = reason;
+
+    if (train && wasExecuting) {
+      this.reservations.cancel(train.id);
+      train.plannedMoves = undefined;
+      // Give up the destination unless the train actually got there
+      if (train.locationNodeId !== plan.targetId) {
+        this.vacateNode(train.id, plan.targetId);
+        this.abandonCleaning(train.id);
+      }
+    }
+
+    // Departures waiting on this train to clear the way are not going anywhere now
+    [...this.pendingDepartures.keys()]
+      .filter(departingId => this.state.trains[departingId] && this.getFrontBlocker(this.state.trains[departingId])?.id === plan.trainId)
+      .forEach(departingId => {
+        this.pendingDepartures.delete(departingId);
+        this.emitEvent({
+          type: 'train:updated',
+          trainId: departingId,
+          message: `Departure of train ${this.state.trains[departingId].number} held - ${train?.number || plan.trainId} could not be moved out of the way`,
+          severity: 'warning'
+        });
+        this.missDeparture(departingId, 'was blocked in');
+      });
+
+    if (train && this.definition.exitPoints.includes(plan.targetId || '')) {
+      this.missDeparture(train.id, 'did not reach the exit');
+    }
+
+    this.emitEvent({
+      type: 'plan:complete',
+      trainId: plan.trainId,
+      message: `Plan for train ${train?.number || plan.trainId} failed: ${reason}`,
+      severity: 'error',
+      data: { planId: plan.id, targetId: plan.targetId, status: plan.status, reason }
+    });
+  }
+
+  // What happens once a train reaches its destination depends on what is there
+  private handleArrival(trainId: string, nodeId: string): void {
+    const train = this.state.trains[trainId];
+    const bay = Object.values(this.state.inspectionBays).find(b => b.nodeId === nodeId);
+    const workshop = Object.values(this.state.workshopLines).find(w => w.nodeId === nodeId);
+    const sidingSlot = this.state.sidingSlots[nodeId];
+
+    const cleaning = bay?.status === 'cleaning' ? this.getActiveCleaning(trainId) : undefined;
+
+    if (bay && cleaning) {
+      this.beginCleaningWork(cleaning);
+    } else if (bay) {
+      train.status = 'inspection';
+      bay.inspectionStartTime = this.clock.now();
+
+      this.emitEvent({
+        type: 'train:moved',
+        trainId,
+        message: `Train ${train.number} moved to ${bay.name} for inspection`,
+        severity: 'info',
+        data: { toNode: nodeId }
+      });
+
+      // Schedule inspection completion
+      this.clock.schedule(() => {
+        this.completeInspection(trainId, bay.id);
+      }, bay.inspectionDuration);
+    } else if (workshop) {
+      train.status = 'workshop';
+
+      this.emitEvent({
+        type: 'train:moved',
+        trainId,
+        message: `Train ${train.number} sent to ${workshop.name}`,
+        severity: 'info',
+        data: { workshopId: workshop.id }
+      });
+
+      // Simulate workshop completion
+      this.clock.schedule(() => {
+        this.completeWorkshop(trainId, workshop.id);
+      }, 10000); // 10 seconds
+    } else if (this.definition.exitPoints.includes(nodeId)) {
+      train.status = 'departed';
+
+      this.emitEvent({
+        type: 'train:moved',
+        trainId,
+        message: `Train ${train.number} departed via ${this.describeNode(nodeId)}`,
+        severity: 'success',
+        data: { toNode: nodeId }
+      });
+      this.completeDeparture(trainId);
+    } else if (sidingSlot) {
+      train.status = 'parked';
+
+      this.emitEvent({
+        type: 'train:moved',
+        trainId,
+        message: `Train ${train.number} parked in ${sidingSlot.sidingId}-${sidingSlot.slot}`,
+        severity: 'success',
+        data: { targetId: nodeId, slot: sidingSlot.slot }
+      });
+    } else if (this.definition.nodes[nodeId]?.type === 'test') {
+      train.status = 'test';
+      train.mileage += TEST_RUN_KM;
+
+      this.emitEvent({
+        type: 'train:moved',
+        trainId,
+        message: `Train ${train.number} completed a run on ${this.describeNode(nodeId)} (+${TEST_RUN_KM} km)`,
+        severity: 'info',
+        data: { toNode: nodeId }
+      });
+    } else {
+      train.status = 'parked';
+
+      this.emitEvent({
+        type: 'train:moved',
+        trainId,
+        message: `Train ${train.number} stopped at ${this.describeNode(nodeId)}`,
+        severity: 'info',
+        data: { toNode: nodeId }
+      });
+    }
+  }
+
+  private getTargetOccupant(nodeId: string): string | undefined {
+    const bay = Object.values(this.state.inspectionBays).find(b => b.nodeId === nodeId);
+    const workshop = Object.values(this.state.workshopLines).find(w => w.nodeId === nodeId);
+    return bay?.occupiedBy || workshop?.occupiedBy || this.state.sidingSlots[nodeId]?.occupiedBy;
+  }
+
+  // Slots in the same siding share the way in: a rear slot can't be reached once its front slot
+  // is taken, and a front slot can't be taken while a train bound for the rear still has to pass
+  private isPassageHeld(slotId: string): boolean {
+    const front = this.state.sidingSlots[slotId]?.topology?.behindSlot;
+    if (front && this.state.sidingSlots[front]?.occupiedBy) return true;
+
+    return Object.values(this.state.sidingSlots).some(rear => {
+      if (rear.topology?.behindSlot !== slotId || !rear.occupiedBy) return false;
+      return this.state.trains[rear.occupiedBy]?.locationNodeId !== rear.id;
+    });
+  }
+
+  // Hold the destination so nobody else is routed into it while the train is under way
+  private claimTarget(trainId: string, nodeId: string): boolean {
+    const occupant = this.getTargetOccupant(nodeId);
+    if (occupant && occupant !== trainId) return false;
+    if (this.isPassageHeld(nodeId)) return false;
+
+    const bay = Object.values(this.state.inspectionBays).find(b => b.nodeId === nodeId);
+    const workshop = Object.values(this.state.workshopLines).find(w => w.nodeId === nodeId);
+    const sidingSlot = this.state.sidingSlots[nodeId];
+
+    if (bay) {
+      // A bay held for cleaning stays blocked for inspection
+      if (bay.status !== 'cleaning') bay.status = 'occupied';
+      bay.occupiedBy = trainId;
+    }
+    if (workshop) {
+      workshop.status = 'occupied';
+      workshop.occupiedBy = trainId;
+    }
+    if (sidingSlot) {
+      sidingSlot.occupiedBy = trainId;
+    }
+    return true;
+  }
+
+  // Free whatever bay, workshop line or slot the train held at the node it is leaving
+  private vacateNode(trainId: string, nodeId: string): void {
+    const bay = Object.values(this.state.inspectionBays).find(b => b.nodeId === nodeId && b.occupiedBy === trainId);
+    const workshop = Object.values(this.state.workshopLines).find(w => w.nodeId === nodeId && w.occupiedBy === trainId);
+    const slot = this.state.sidingSlots[nodeId];
+
+    if (bay) {
+      bay.status = bay.outage ? 'closed' : 'free';
+      bay.occupiedBy = undefined;
+      bay.inspectionStartTime = undefined;
+    }
+    if (workshop) {
+      workshop.status = 'free';
+      workshop.occupiedBy = undefined;
+    }
+    if (slot?.occupiedBy === trainId) {
+      slot.occupiedBy = undefined;
+      this.emitEvent({
+        type: 'train:updated',
+        trainId,
+        message: `${this.describeNode(slot.id)} freed by train ${this.state.trains[trainId]?.number || trainId}`,
+        severity: 'info',
+        data: { slotId: slot.id }
+      });
+    }
+
+    // Check for queued trains
+    if (bay) {
+      this.processQueuedTrains();
+    }
+  }
+
+  private describeNode(nodeId: string): string {
+    const slot = this.state.sidingSlots[nodeId];
+    if (slot) return `${slot.sidingId}-${slot.slot}`;
+    return this.definition.nodes[nodeId]?.label || nodeId;
+  }
+
+  private describeHolders(segments: string[]): string {
+    return [...new Set(segments.map(segment => this.reservations.getOwner(segment)))]
+      .map(holderId => this.state.trains[holderId]?.number || holderId)
+      .join(', ');
+  }
+
+  private emitLockEvent(type: 'lock:acquired' | 'lock:released', trainId: string, segments: string[]): void {
+    const train = this.state.trains[trainId];
+
+    Object.values(this.state.switches)
+      .filter(sw => segments.includes(switchLockId(sw.id)))
+      .forEach(sw => {
+        sw.locked = type === 'lock:acquired';
+      });
+
+    const verb = type === 'lock:acquired' ? 'locked' : 'released';
+
+    this.emitEvent({
+      type,
+      trainId,
+      message: `${segments.length} segment(s) ${verb} for train ${train?.number || trainId}`,
+      severity: 'info',
+      data: { segments }
+    });
   }
 
   private completeWorkshop(trainId: string, workshopId: string): void {
@@ -494,10 +2220,7 @@ export class YardSimulator {
     train.failures = [];
     train.fitness = Math.min(100, train.fitness + 20);
     train.status = 'moving';
-    train.lastUpdated = Date.now();
-
-    workshop.status = 'free';
-    workshop.occupiedBy = undefined;
+    train.lastUpdated = this.clock.now();
 
     this.emitEvent({
       type: 'workshop:updated',
@@ -514,20 +2237,89 @@ export class YardSimulator {
       trainId,
       message: `Generated ${recommendations.length} siding recommendations after repair`,
       severity: 'info',
-      data: { recommendations }
+      data: { recommendations, strategy: this.getStrategy().name }
     });
 
     // Auto-assign to best siding
-    const bestRecommendation = recommendations[0];
-    if (bestRecommendation) {
-      setTimeout(() => {
-        this.assignTrainToSiding(trainId, bestRecommendation.targetId, bestRecommendation.slot);
-      }, 1000);
-    }
+    this.sendToSiding(trainId, recommendations);
   }
 
   public getState(): YardState {
-    return { ...this.state };
+    return { ...this.state, lastUpdate: this.clock.now() };
+  }
+
+  // Current simulation time; stands still while paused
+  public now(): number {
+    return this.clock.now();
+  }
+
+  // Speed is the clock rate, so it applies straight away to everything already scheduled
+  public setSpeed(speed: number): void {
+    this.state.simulationSpeed = Math.max(0.1, Math.min(10, speed));
+    this.clock.setRate(this.state.simulationSpeed);
+  }
+
+  // Skip the idle time up to the next scheduled piece of work and run it
+  public fastForward(): void {
+    const from = this.clock.now();
+    if (!this.clock.advanceToNext()) {
+      this.emitEvent({
+        type: 'log:new',
+        message: 'Nothing scheduled to fast-forward to',
+        severity: 'info'
+      });
+      return;
+    }
+
+    this.emitEvent({
+      type: 'log:new',
+      message: `Fast-forwarded ${this.formatElapsed(this.clock.now() - from)} to next event`,
+      severity: 'info'
+    });
+  }
+
+  // Run everything scheduled up to the given simulation time without waiting for it
+  public runUntil(time: number): void {
+    const from = this.clock.now();
+    if (time <= from) return;
+
+    this.clock.advanceTo(time);
+    this.emitEvent({
+      type: 'log:new',
+      message: `Ran ${this.formatElapsed(time - from)} ahead to ${new Date(time).toLocaleTimeString()}`,
+      severity: 'info'
+    });
+  }
+
+  private formatElapsed(ms: number): string {
+    const totalMinutes = Math.floor(ms / 60000);
+    const seconds = Math.floor((ms % 60000) / 1000);
+    if (totalMinutes >= 60) {
+      return `${Math.floor(totalMinutes / 60)}h ${totalMinutes % 60}m`;
+    }
+    return `${totalMinutes}m ${seconds}s`;
+  }
+
+  public pause(): void {
+    if (this.clock.isPaused()) return;
+    this.clock.pause();
+    this.state.paused = true;
+    this.emitEvent({
+      type: 'log:new',
+      message: 'Simulation paused',
+      severity: 'info'
+    });
+  }
+
+  public resume(): void {
+    if (!this.clock.isPaused()) return;
+    this.clock.resume();
+    this.state.paused = false;
+    this.emitEvent({
+      type: 'log:new',
+      message: 'Simulation resumed',
+      severity: 'info'
+    });
   }
 
   public processCommand(command: SimulatorCommand): void {
@@ -542,12 +2334,149 @@ export class YardSimulator {
             this.assignTrainToSiding(command.trainId, targetId, slot);
           } else if (command.data.targetType === 'workshop') {
             this.assignTrainToWorkshop(command.trainId, targetId);
+          } else if (command.data.targetType === 'test') {
+            this.assignTrainToTestTrack(command.trainId, targetId);
           }
         }
         break;
+      case 'preview_plan':
+        if (command.trainId && command.data?.targetId) {
+          this.previewPlan(command.trainId, command.data.targetId);
+        }
+        break;
+      case 'execute_plan': {
+        const planId = command.data?.planId || Object.values(this.state.activePlans)
+          .find(plan => plan.trainId === command.trainId && plan.status === 'preview')?.id;
+        if (planId) {
+          this.executePlan(planId);
+        }
+        break;
+      }
+      case 'cancel_plan':
+        if (command.data?.planId) {
+          this.cancelPlan(command.data.planId);
+        }
+        break;
+      case 'pause':
+        this.pause();
+        break;
+      case 'resume':
+        this.resume();
+        break;
       case 'speed_change':
         if (command.data?.speed) {
-          this.state.simulationSpeed = Math.max(0.1, Math.min(10, command.data.speed));
+          this.setSpeed(command.data.speed);
+        }
+        break;
+      case 'fast_forward':
+        this.fastForward();
+        break;
+      case 'remove_train':
+        if (command.trainId) {
+          this.departTrain(command.trainId, this.findDeparture(command.trainId)?.exitPointId);
+        }
+        break;
+      case 'add_departure':
+        if (command.data?.time) {
+          this.addDeparture(command.data.time, command.data.exitPointId, command.data.serviceName);
+        }
+        break;
+      case 'assign_departure':
+        if (command.data?.departureId) {
+          this.assignDeparture(command.data.departureId, command.trainId);
+        }
+        break;
+      case 'remove_departure':
+        if (command.data?.departureId) {
+          this.removeDeparture(command.data.departureId);
+        }
+        break;
+      case 'plan_induction':
+        this.planInduction();
+        break;
+      case 'accept_induction':
+        if (command.data?.planId) {
+          this.acceptInduction(command.data.planId);
+        }
+        break;
+      case 'renew_certificate':
+        if (command.trainId && command.data?.type) {
+          this.renewCertificate(command.trainId, command.data.type);
+        }
+        break;
+      case 'save_scoring_policy':
+        if (command.data?.policy) {
+          this.saveScoringPolicy(command.data.policy);
+        }
+        break;
+      case 'select_scoring_policy':
+        if (command.data?.policyId) {
+          this.selectScoringPolicy(command.data.policyId);
+        }
+        break;
+      case 'delete_scoring_policy':
+        if (command.data?.policyId) {
+          this.deleteScoringPolicy(command.data.policyId);
+        }
+        break;
+      case 'select_strategy':
+        if (command.data?.strategyId) {
+          this.selectStrategy(command.data.strategyId);
+        }
+        break;
+      case 'schedule_cleaning':
+        if (command.trainId && command.data?.type) {
+          this.scheduleCleaning(
+            command.trainId,
+            command.data.type,
+            command.data.location || 'siding',
+            command.data.bayId,
+            command.data.scheduledFor
+          );
+        }
+        break;
+      case 'cancel_cleaning':
+        if (command.data?.jobId) {
+          this.cancelCleaning(command.data.jobId);
+        }
+        break;
+      case 'set_cleaning_crews':
+        if (typeof command.data?.crews === 'number') {
+          this.setCleaningCrews(command.data.crews);
+        }
+        break;
+      case 'add_branding_contract':
+        if (command.data?.advertiser && command.data.requiredHours > 0) {
+          this.addBrandingContract(
+            command.data.advertiser,
+            command.data.requiredHours,
+            command.data.periodDays || DEFAULT_BRANDING_PERIOD_DAYS,
+            command.data.trainIds || []
+          );
+        }
+        break;
+      case 'remove_branding_contract':
+        if (command.data?.contractId) {
+          this.removeBrandingContract(command.data.contractId);
+        }
+        break;
+      case 'reset':
+        this.reset(command.data?.scenario, command.data?.seed);
+        break;
+      case 'load_scenario':
+        try {
+          this.loadScenario(command.data?.scenario, command.data?.seed);
+        } catch (error) {
+          this.emitEvent({
+            type: 'error',
+            message: error instanceof Error ? error.message : 'Invalid scenario',
+            severity: 'error'
+          });
+        }
+        break;
+      case 'run_until':
+        if (command.data?.time) {
+          this.runUntil(command.data.time);
         }
         break;
     }
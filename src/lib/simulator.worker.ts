@@ -0,0 +1,68 @@
+// Runs the simulator off the UI thread; see SimulatorClient for the other side
+import { SimulatorRequest, SimulatorResponse } from '@/types/yard';
+import { YardSimulator } from '@/lib/simulator';
+import { StatePatcher } from '@/lib/patches';
+
+const FLUSH_INTERVAL_MS = 50; // events in the same burst go out as one patch
+const TICK_INTERVAL_MS = 1000; // while running, so progress and dwell times keep moving
+
+// The app is built against the DOM types, so describe just the worker scope used here
+const scope = self as unknown as {
+  postMessage: (message: SimulatorResponse) => void;
+  onmessage: ((event: MessageEvent<SimulatorRequest>) => void) | null;
+};
+
+// Null until the client sends the yard to build
+let simulator: YardSimulator | null = null;
+const patcher = new StatePatcher();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function flush(): void {
+  flushTimer = null;
+  if (!simulator) return;
+  const patch = patcher.diff(simulator.getState());
+  if (patch) scope.postMessage({ type: 'patch', patch });
+}
+
+function scheduleFlush(): void {
+  if (flushTimer === null) flushTimer = setTimeout(flush, FLUSH_INTERVAL_MS);
+}
+
+setInterval(() => {
+  if (simulator && !simulator.getState().paused) scheduleFlush();
+}, TICK_INTERVAL_MS);
+
+function handleRequest(request: SimulatorRequest): void {
+  switch (request.type) {
+    case 'init': {
+      const created = new YardSimulator(request.definition);
+      // Policies saved in earlier sessions, with the default kept active
+      request.policies.forEach(policy => created.saveScoringPolicy(policy));
+      if (request.scenario !== 'empty') created.reset(request.scenario);
+      created.addEventListener(scheduleFlush);
+      simulator = created;
+
+      const state = created.getState();
+      patcher.prime(state);
+      scope.postMessage({ type: 'ready', state });
+      break;
+    }
+    case 'command':
+      if (!simulator) throw new Error('Simulator not started');
+      simulator.processCommand(request.command);
+      // Commands such as a speed change alter the state without an event
+      scheduleFlush();
+      break;
+  }
+}
+
+scope.onmessage = (event) => {
+  try {
+    handleRequest(event.data);
+  } catch (error) {
+    scope.postMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
@@ -0,0 +1,140 @@
+import {
+  YardDefinition,
+  YardState,
+  YardEvent,
+  YardScenario,
+  ScenarioDefinition,
+  ScoringPolicy,
+  SimulatorCommand,
+  SimulatorRequest,
+  SimulatorResponse,
+  ComparisonRequest,
+  ComparisonResponse,
+  ComparisonConfig,
+  ComparisonResult
+} from '@/types/yard';
+import { applyStatePatch, getPatchEvents } from '@/lib/patches';
+import { YardStore } from '@/lib/store';
+
+type StateListener = (state: YardState, events: YardEvent[]) => void;
+
+interface PendingComparison {
+  resolve: (result: ComparisonResult) => void;
+  reject: (error: Error) => void;
+}
+
+// UI-side handle on the simulator running in a worker. Commands go over as they are issued
+// and the state comes back as patches, applied to the store the components read from.
+// Comparisons get a second worker, started when first needed.
+export class SimulatorClient {
+  public readonly store = new YardStore();
+  private definition: YardDefinition;
+  private worker: Worker;
+  private comparisonWorker: Worker | null = null;
+  private receivedAt = 0; // wall-clock time the state last arrived
+  private listeners: StateListener[] = [];
+  private comparisons: Record<number, PendingComparison> = {};
+  private nextRequestId = 1;
+
+  constructor(
+    definition: YardDefinition,
+    scenario: YardScenario | ScenarioDefinition = 'empty',
+    policies: ScoringPolicy[] = []
+  ) {
+    this.definition = definition;
+    this.worker = new Worker(new URL('./simulator.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<SimulatorResponse>) => this.handleResponse(event.data);
+    this.worker.onerror = (event) => console.error('Simulator worker failed:', event.message);
+    this.post({ type: 'init', definition, scenario, policies });
+  }
+
+  private post(request: SimulatorRequest): void {
+    this.worker.postMessage(request);
+  }
+
+  private handleResponse(response: SimulatorResponse): void {
+    switch (response.type) {
+      case 'ready':
+        this.setState(response.state, response.state.eventLog);
+        break;
+      case 'patch': {
+        const state = this.store.getState();
+        if (state) this.setState(applyStatePatch(state, response.patch), getPatchEvents(response.patch));
+        break;
+      }
+      case 'error':
+        console.error('Simulator error:', response.message);
+        break;
+    }
+  }
+
+  private handleComparisonResponse(response: ComparisonResponse): void {
+    const pending = this.comparisons[response.requestId];
+    delete this.comparisons[response.requestId];
+    if (response.type === 'comparison') {
+      pending?.resolve(response.result);
+    } else {
+      pending?.reject(new Error(response.message));
+    }
+  }
+
+  private getComparisonWorker(): Worker {
+    if (!this.comparisonWorker) {
+      this.comparisonWorker = new Worker(new URL('./comparison.worker.ts', import.meta.url), { type: 'module' });
+      this.comparisonWorker.onmessage = (event: MessageEvent<ComparisonResponse>) => this.handleComparisonResponse(event.data);
+      this.comparisonWorker.onerror = (event) => console.error('Comparison worker failed:', event.message);
+    }
+    return this.comparisonWorker;
+  }
+
+  private setState(state: YardState, events: YardEvent[]): void {
+    this.store.setState(state);
+    this.receivedAt = Date.now();
+    this.listeners.forEach(listener => listener(state, events));
+  }
+
+  // Null until the worker has built the yard
+  public getState(): YardState | null {
+    return this.store.getState();
+  }
+
+  // Simulation time now, carried on from the last state at the running speed
+  public now(): number {
+    const state = this.store.getState();
+    if (!state) return Date.now();
+    if (state.paused) return state.lastUpdate;
+    return state.lastUpdate + (Date.now() - this.receivedAt) * state.simulationSpeed;
+  }
+
+  public processCommand(command: SimulatorCommand): void {
+    this.post({ type: 'command', command });
+  }
+
+  // Runs on fresh simulators of its own while the live yard carries on
+  public runComparison(config: Omit<ComparisonConfig, 'strategies'>): Promise<ComparisonResult> {
+    const requestId = this.nextRequestId++;
+    const request: ComparisonRequest = { requestId, definition: this.definition, config };
+    return new Promise((resolve, reject) => {
+      this.comparisons[requestId] = { resolve, reject };
+      this.getComparisonWorker().postMessage(request);
+    });
+  }
+
+  public addEventListener(listener: StateListener): void {
+    this.listeners.push(listener);
+  }
+
+  public removeEventListener(listener: StateListener): void {
+    const index = this.listeners.indexOf(listener);
+    if (index > -1) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  public terminate(): void {
+    this.worker.terminate();
+    this.comparisonWorker?.terminate();
+    Object.values(this.comparisons).forEach(pending => pending.reject(new Error('Simulator stopped')));
+    this.comparisons = {};
+  }
+}
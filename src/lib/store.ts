@@ -0,0 +1,34 @@
+import { YardState } from '@/types/yard';
+
+type StoreListener = () => void;
+
+// Holds the UI's copy of the yard. The state is never changed in place: each update is a new
+// object that shares every part that didn't change, so comparing references is enough to
+// tell what did.
+//
+// That guarantee comes from the worker boundary, not from the simulator. YardSimulator still
+// changes its own state in place, and getState() hands out a shallow copy over the same
+// nested objects. What arrives here was posted across from the worker as fresh objects, and
+// applyStatePatch builds each update without touching the one before. Anything else calling
+// setState must likewise hand over objects nobody will change afterwards.
+export class YardStore {
+  private state: YardState | null = null;
+  private listeners: StoreListener[] = [];
+
+  // Null until the simulator has built the yard
+  public getState = (): YardState | null => this.state;
+
+  public setState(state: YardState): void {
+    if (state === this.state) return;
+    this.state = state;
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Shaped for useSyncExternalStore: returns the unsubscribe
+  public subscribe = (listener: StoreListener): (() => void) => {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(other => other !== listener);
+    };
+  };
+}
@@ -0,0 +1,309 @@
+import {
+  Train,
+  SidingSlot,
+  Route,
+  ScoreTerm,
+  AssignmentRecommendation,
+  RecommendationContext,
+  RecommendationStrategy,
+  StrategySummary
+} from '@/types/yard';
+import { describeTerm, scoreSiding, scoreWorkshop, sumTerms } from '@/lib/scoring';
+
+export const DEFAULT_STRATEGY_ID = 'greedy';
+
+const MAX_SIDING_RECOMMENDATIONS = 5;
+const LOOKAHEAD_TRAINS = 3; // trains still to be stabled that the lookahead considers
+const LOOKAHEAD_WEIGHT = 1; // share of the points the next trains lose that counts against a slot
+const MORNING_SHUNT_PENALTY = 40; // a slot-a train parked in front of one leaving earlier
+const BOOKED_REAR_PENALTY = 15; // a booked train in slot b, where a later arrival may block it in
+const UNBOOKED_REAR_BONUS = 20; // a train with no booking kept out of the way in slot b
+
+interface SidingCandidate {
+  slot: SidingSlot;
+  route: Route;
+}
+
+function getSidingWarnings(train: Train, slot: SidingSlot, route: Route): string[] {
+  const warnings: string[] = [];
+
+  if (slot.blockingRisk === 'high') warnings.push('High blocking risk for future operations');
+  if (slot.slot === 'b' && train.departSoon) warnings.push('Rear position may delay morning departure');
+  if ((slot.reverseCost || 0) > 2) warnings.push('High reverse cost for positioning');
+  if (route.switchCount > 9) warnings.push(`Route crosses ${route.switchCount} switches`);
+
+  return warnings;
+}
+
+// Free slots the train has a way into right now
+function getSidingCandidates(train: Train, context: RecommendationContext): SidingCandidate[] {
+  const candidates: SidingCandidate[] = [];
+  Object.values(context.state.sidingSlots).forEach(slot => {
+    if (!context.isSlotAvailable(slot.id)) return;
+    const route = context.findRoute(train.locationNodeId, slot.id);
+    if (route) candidates.push({ slot, route });
+  });
+  return candidates;
+}
+
+// Booked departure time, if the train has one still to run
+function getDepartureTime(trainId: string, context: RecommendationContext): number | undefined {
+  const times = Object.values(context.state.departures)
+    .filter(departure => departure.trainId === trainId && departure.status === 'planned')
+    .map(departure => departure.departureTime);
+  return times.length > 0 ? Math.min(...times) : undefined;
+}
+
+// A front slot taken while the slot behind it is free leaves the rear one unreachable, so trains
+// with no departure coming go to the rear first and the yard keeps its capacity. Trains about to
+// leave may still take the front, rather than be parked in by the next arrival.
+function fillFromTheBack<T extends SidingCandidate>(train: Train, candidates: T[], context: RecommendationContext): T[] {
+  if (train.departSoon || getDepartureTime(train.id, context) !== undefined) return candidates;
+
+  const reachable = new Set(candidates.map(({ slot }) => slot.id));
+  const slots = Object.values(context.state.sidingSlots);
+  return candidates.filter(({ slot }) =>
+    !slots.some(rear => rear.topology?.behindSlot === slot.id && reachable.has(rear.id))
+  );
+}
+
+function toSidingRecommendation(
+  train: Train,
+  { slot, route }: SidingCandidate,
+  terms: ScoreTerm[],
+  context: RecommendationContext
+): AssignmentRecommendation {
+  return {
+    targetId: slot.id,
+    targetType: 'siding',
+    slot: slot.slot,
+    score: sumTerms(terms),
+    scoreBreakdown: terms,
+    reverseCost: slot.reverseCost || 1,
+    distanceEstimate: route.length,
+    blockingRisk: slot.blockingRisk || 'medium',
+    ETAToPark: context.estimateTravelTime(route),
+    estimatedShuntSteps: slot.slot === 'b' ? 1 : 0,
+    switchCount: route.switchCount,
+    route: route.nodes,
+    reasoning: terms.map(describeTerm),
+    warnings: getSidingWarnings(train, slot, route)
+  };
+}
+
+function rankSidings(
+  train: Train,
+  context: RecommendationContext,
+  candidates: SidingCandidate[],
+  extraTerms: (candidate: SidingCandidate) => ScoreTerm[] = () => []
+): AssignmentRecommendation[] {
+  return candidates
+    .map(candidate => {
+      const terms = [
+        ...scoreSiding(context.policy, train, candidate.slot, candidate.route),
+        ...extraTerms(candidate).filter(term => term.points !== 0)
+      ];
+      return toSidingRecommendation(train, candidate, terms, context);
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SIDING_RECOMMENDATIONS);
+}
+
+function recommendWorkshops(train: Train, context: RecommendationContext): AssignmentRecommendation[] {
+  const recommendations: AssignmentRecommendation[] = [];
+
+  // If wheel alignment is needed, only the specialised line will do
+  const needsWheelAlignment = train.failures.includes('wheel-alignment');
+
+  Object.values(context.state.workshopLines).forEach(workshop => {
+    if (workshop.occupiedBy) return;
+    if (needsWheelAlignment && workshop.specialization !== 'wheel-alignment') return;
+
+    const route = context.findRoute(train.locationNodeId, workshop.nodeId);
+    if (!route) return;
+
+    const terms = scoreWorkshop(context.policy, train, workshop);
+    recommendations.push({
+      targetId: workshop.id,
+      targetType: 'workshop',
+      score: sumTerms(terms),
+      scoreBreakdown: terms,
+      reverseCost: 1,
+      distanceEstimate: route.length,
+      blockingRisk: 'low',
+      ETAToPark: context.estimateTravelTime(route),
+      estimatedShuntSteps: 0,
+      switchCount: route.switchCount,
+      route: route.nodes,
+      reasoning: terms.map(describeTerm),
+      warnings: []
+    });
+  });
+
+  return recommendations.sort((a, b) => b.score - a.score);
+}
+
+// Test tracks take one train at a time, counting any train already heading there
+function recommendTestTrack(train: Train, context: RecommendationContext): AssignmentRecommendation[] {
+  const { state, definition, policy } = context;
+  const recommendations: AssignmentRecommendation[] = [];
+
+  Object.values(definition.nodes)
+    .filter(node => node.type === 'test')
+    .forEach(node => {
+      const taken = Object.values(state.trains).some(other =>
+        other.id !== train.id && other.status !== 'departed' && other.locationNodeId === node.id
+      ) || Object.values(state.activePlans).some(plan =>
+        plan.trainId !== train.id && plan.status === 'executing' && plan.targetId === node.id
+      );
+      if (taken) return;
+
+      const route = context.findRoute(train.locationNodeId, node.id);
+      if (!route) return;
+
+      const terms = [
+        { label: 'Base score', points: policy.siding.base },
+        { label: `${route.switchCount} switch(es) on the route`, points: -route.switchCount * policy.siding.switchPenalty }
+      ].filter((term, index) => index === 0 || term.points !== 0);
+      recommendations.push({
+        targetId: node.id,
+        targetType: 'test',
+        score: sumTerms(terms),
+        scoreBreakdown: terms,
+        reverseCost: 1,
+        distanceEstimate: route.length,
+        blockingRisk: 'low',
+        ETAToPark: context.estimateTravelTime(route),
+        estimatedShuntSteps: 0,
+        switchCount: route.switchCount,
+        route: route.nodes,
+        reasoning: terms.map(describeTerm),
+        warnings: []
+      });
+    });
+
+  return recommendations.sort((a, b) => b.score - a.score);
+}
+
+export const greedyStrategy: RecommendationStrategy = {
+  id: DEFAULT_STRATEGY_ID,
+  name: 'Greedy',
+  description: 'Best score for the train in hand, as weighted by the scoring policy, filling sidings from the rear',
+  recommendSidings: (train, context) =>
+    rankSidings(train, context, fillFromTheBack(train, getSidingCandidates(train, context), context)),
+  recommendWorkshops,
+  recommendTestTrack
+};
+
+// Trains still to be stabled after this one, nearest first: those already in the yard, then the
+// announced arrivals, taken to be at the entry they will come in by
+function getUpcomingTrains(train: Train, context: RecommendationContext): Train[] {
+  const order: Train['status'][] = ['inspection', 'queued', 'arriving'];
+  const waiting = Object.values(context.state.trains)
+    .filter(other => other.id !== train.id && order.includes(other.status))
+    .sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status));
+  const expected = context.expectedArrivals.map((arrival, index) => ({
+    ...arrival.train,
+    id: `expected_${index + 1}`,
+    locationNodeId: context.definition.entryPoints[0],
+    failures: arrival.train.failures || []
+  }) as Train);
+  return [...waiting, ...expected].slice(0, LOOKAHEAD_TRAINS);
+}
+
+interface ScoredCandidate extends SidingCandidate {
+  score: number;
+}
+
+interface UpcomingTrain {
+  train: Train;
+  options: ScoredCandidate[]; // every slot it has a way into now, best first
+}
+
+// The slot greedy would give a train once the slots in `taken` are gone: a route through a taken
+// slot is closed, and the rear-first rule applies to what is left
+function pickAfter({ train, options }: UpcomingTrain, taken: Set<string>, context: RecommendationContext): ScoredCandidate | undefined {
+  const open = options.filter(({ route }) => !route.nodes.some(nodeId => taken.has(nodeId)));
+  return fillFromTheBack(train, open, context)[0];
+}
+
+// Points the upcoming trains score between them if this train takes `slotId`, each stabled in
+// turn in the best slot the ones before it have left. A train left with no slot scores nothing.
+function scoreFollowOn(slotId: string, upcoming: UpcomingTrain[], context: RecommendationContext): number {
+  const taken = new Set([slotId]);
+  return upcoming.reduce((total, next) => {
+    const pick = pickAfter(next, taken, context);
+    if (!pick) return total;
+    taken.add(pick.slot.id);
+    return total + pick.score;
+  }, 0);
+}
+
+// Plays each slot forward: this train takes it, then the next trains to be stabled pick as greedy
+// would, and the slot is marked down by what they score less than after the best choice. For
+// example, on the preset yard with seed 5 greedy gives each booked arrival the front slot of an
+// empty siding, so T15 and T16 find every rear slot shut off and wait in their bays until the
+// morning; lookahead sees them coming and keeps a siding open for them.
+export const lookaheadStrategy: RecommendationStrategy = {
+  id: 'lookahead',
+  name: 'Lookahead',
+  description: 'Greedy score, less what taking the slot costs the next trains to be stabled when they pick after it',
+  recommendSidings: (train, context) => {
+    const upcoming = getUpcomingTrains(train, context).map(next => ({
+      train: next,
+      options: getSidingCandidates(next, context)
+        .map(candidate => ({ ...candidate, score: sumTerms(scoreSiding(context.policy, next, candidate.slot, candidate.route)) }))
+        .sort((a, b) => b.score - a.score)
+    }));
+
+    const candidates = fillFromTheBack(train, getSidingCandidates(train, context), context);
+    const followOn: Record<string, number> = {};
+    candidates.forEach(({ slot }) => {
+      followOn[slot.id] = scoreFollowOn(slot.id, upcoming, context);
+    });
+    const bestFollowOn = Math.max(0, ...Object.values(followOn));
+
+    return rankSidings(train, context, candidates, ({ slot }) => [{
+      label: `Costs the next ${upcoming.length} train(s) to stable`,
+      points: -Math.round((bestFollowOn - followOn[slot.id]) * LOOKAHEAD_WEIGHT)
+    }]);
+  },
+  recommendWorkshops,
+  recommendTestTrack
+};
+
+export const morningShuntStrategy: RecommendationStrategy = {
+  id: 'morning-shunts',
+  name: 'Fewest morning shunts',
+  description: 'Greedy score, with each siding paired by departure order so nobody is parked in front of an earlier train',
+  recommendSidings: (train, context) => {
+    const leavesAt = getDepartureTime(train.id, context) ?? (train.departSoon ? context.now : undefined);
+    const slots = Object.values(context.state.sidingSlots);
+
+    // Pairs front and rear slots by departure order itself, so every free slot is on offer
+    return rankSidings(train, context, getSidingCandidates(train, context), ({ slot }) => {
+      if (slot.slot === 'b') {
+        return leavesAt !== undefined
+          ? [{ label: 'Booked train may be blocked in the rear slot', points: -BOOKED_REAR_PENALTY }]
+          : [{ label: 'Unbooked train kept out of the way', points: UNBOOKED_REAR_BONUS }];
+      }
+
+      // Parking in front of a train that leaves first means shunting this one out of its way
+      const rear = slots.find(other => other.topology?.behindSlot === slot.id && other.occupiedBy);
+      const rearTrain = rear?.occupiedBy ? context.state.trains[rear.occupiedBy] : undefined;
+      const rearLeavesAt = rearTrain && getDepartureTime(rearTrain.id, context);
+      if (!rearTrain || rearLeavesAt === undefined || (leavesAt !== undefined && leavesAt <= rearLeavesAt)) return [];
+
+      const time = new Date(rearLeavesAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      return [{ label: `Blocks ${rearTrain.number} leaving at ${time}`, points: -MORNING_SHUNT_PENALTY }];
+    });
+  },
+  recommendWorkshops,
+  recommendTestTrack
+};
+
+export const BUILT_IN_STRATEGIES: RecommendationStrategy[] = [greedyStrategy, lookaheadStrategy, morningShuntStrategy];
+
+export function summarizeStrategy({ id, name, description }: RecommendationStrategy): StrategySummary {
+  return { id, name, description };
+}
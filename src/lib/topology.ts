@@ -0,0 +1,105 @@
+import { YardDefinition, SidingSlot, SlotTopology } from '@/types/yard';
+import { YardRouter } from '@/lib/routing';
+
+const SWITCHES_PER_COST = 2; // extra switches, beyond the most direct slot, that add one to the reverse cost
+const RISKY_EXTRA_SWITCHES = 3;
+
+// Direction change at `via`: the track leaves at more than a right angle to how it came in,
+// so the train has to stop and run back the other way
+function isReversal(definition: YardDefinition, from: string, via: string, to: string): boolean {
+  const a = definition.nodes[from];
+  const b = definition.nodes[via];
+  const c = definition.nodes[to];
+  return (b.x - a.x) * (c.x - b.x) + (b.y - a.y) * (c.y - b.y) < 0;
+}
+
+// Worst case over every way into and out of the yard, since a slot has to be reached and left
+function measureSlot(definition: YardDefinition, router: YardRouter, slotId: string): SlotTopology | undefined {
+  const mainline = [...definition.entryPoints, ...definition.exitPoints];
+  let worst: SlotTopology | undefined;
+
+  mainline.forEach(pointId => {
+    const route = router.findRoute(pointId, slotId);
+    if (!route) return;
+
+    let reversals = 0;
+    for (let i = 1; i < route.nodes.length - 1; i++) {
+      if (isReversal(definition, route.nodes[i - 1], route.nodes[i], route.nodes[i + 1])) reversals++;
+    }
+
+    // Slots passed on the way in are the ones standing between this slot and the throat
+    const slotsPassed = route.nodes.slice(0, -1).filter(nodeId => definition.nodes[nodeId]?.type === 'siding-slot');
+    const measured: SlotTopology = {
+      reversals,
+      deadEndDepth: slotsPassed.length + 1,
+      switchesCrossed: route.switchCount,
+      behindSlot: slotsPassed[slotsPassed.length - 1]
+    };
+
+    const harder = !worst ||
+      measured.reversals > worst.reversals ||
+      (measured.reversals === worst.reversals && measured.switchesCrossed > worst.switchesCrossed);
+    if (harder) worst = measured;
+  });
+
+  // Unlike the rest, nearness to the exit is about the best way out rather than the worst
+  const exitSwitches = definition.exitPoints
+    .map(exitId => router.findRoute(slotId, exitId)?.switchCount)
+    .filter((count): count is number => count !== undefined);
+  if (worst && exitSwitches.length > 0) worst.exitSwitches = Math.min(...exitSwitches);
+
+  return worst;
+}
+
+export function computeSlotTopology(definition: YardDefinition, router: YardRouter): Record<string, SlotTopology> {
+  const topology: Record<string, SlotTopology> = {};
+  definition.sidingSlots.forEach(slotId => {
+    const measured = measureSlot(definition, router, slotId);
+    if (measured) topology[slotId] = measured;
+  });
+  return topology;
+}
+
+// Reverse cost and blocking risk from the measurements, compared against the most direct slot in
+// the yard, and nearness to the exit against the farthest; hand-entered metadata values still win
+export function deriveSlotCosts(
+  topology: Record<string, SlotTopology>,
+  slotId: string,
+  metadata: Record<string, unknown> = {}
+): Pick<SidingSlot, 'reverseCost' | 'blockingRisk' | 'exitProximity'> {
+  const measured = topology[slotId];
+  const fewestSwitches = Math.min(...Object.values(topology).map(slot => slot.switchesCrossed));
+  const extraSwitches = measured ? measured.switchesCrossed - fewestSwitches : 0;
+
+  const reverseCost = measured
+    ? measured.deadEndDepth + measured.reversals + Math.ceil(extraSwitches / SWITCHES_PER_COST)
+    : 1;
+
+  const riskPoints = measured
+    ? (measured.behindSlot ? 2 : 0) + measured.reversals + (extraSwitches >= RISKY_EXTRA_SWITCHES ? 1 : 0)
+    : 1;
+  const blockingRisk = riskPoints === 0 ? 'low' : riskPoints <= 2 ? 'medium' : 'high';
+
+  const exitSwitches = Object.values(topology)
+    .map(slot => slot.exitSwitches)
+    .filter((count): count is number => count !== undefined);
+  const exitProximity = measured?.exitSwitches !== undefined ? Math.max(...exitSwitches) - measured.exitSwitches : 0;
+
+  return {
+    reverseCost: typeof metadata.reverseCost === 'number' ? metadata.reverseCost : reverseCost,
+    blockingRisk: metadata.blockingRisk === 'low' || metadata.blockingRisk === 'medium' || metadata.blockingRisk === 'high'
+      ? metadata.blockingRisk
+      : blockingRisk,
+    exitProximity
+  };
+}
+
+export function describeTopology(topology: SlotTopology): string {
+  const parts = [
+    `${topology.reversals} reversal(s)`,
+    `${topology.switchesCrossed} switches`,
+    `depth ${topology.deadEndDepth}`
+  ];
+  if (topology.behindSlot) parts.push(`behind ${topology.behindSlot}`);
+  return parts.join(', ');
+}
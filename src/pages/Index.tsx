@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import YardControlSystem from '@/components/YardControlSystem';
-import { YardDefinition } from '@/types/yard';
+import ScenarioPicker from '@/components/ScenarioPicker';
+import { YardDefinition, YardScenario, ScenarioDefinition } from '@/types/yard';
 
 const Index = () => {
   const [yardDefinition, setYardDefinition] = useState<YardDefinition | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [scenario, setScenario] = useState<YardScenario | ScenarioDefinition | null>(null);
 
   useEffect(() => {
     // Load yard definition
@@ -66,7 +68,11 @@ const Index = () => {
     );
   }
 
-  return <YardControlSystem yardDefinition={yardDefinition} />;
+  if (!scenario) {
+    return <ScenarioPicker yardDefinition={yardDefinition} onStart={setScenario} />;
+  }
+
+  return <YardControlSystem yardDefinition={yardDefinition} initialScenario={scenario} />;
 };
 
 export default Index;
@@ -1,19 +1,31 @@
 // Metro Yard Simulation TypeScript Interfaces
 
+export type CertificateType = 'rolling-stock' | 'signalling' | 'telecom';
+
+export interface FitnessCertificate {
+  type: CertificateType;
+  issuedAt: number; // timestamp
+  expiresAt: number; // timestamp
+}
+
+export type CleaningType = 'interior' | 'deep-detail';
+
 export interface Train {
   id: string;
   number?: string;
-  status: 'arriving' | 'queued' | 'inspection' | 'moving' | 'parked' | 'workshop' | 'test' | 'departed';
+  status: 'arriving' | 'queued' | 'inspection' | 'moving' | 'parked' | 'workshop' | 'test' | 'cleaning' | 'departed';
   locationNodeId: string;
   orientation: 'north' | 'south' | 'east' | 'west';
   fitness: number; // 0-100
+  certificates: Record<CertificateType, FitnessCertificate>;
   mileage: number;
+  lastCleaned: Record<CleaningType, number>; // timestamp of the last job of each kind
   jobCard: { 
     tasks: { id: string; desc: string; done: boolean }[] 
   };
   failures: string[]; // e.g., ['wheel-alignment', 'brake']
   priority: boolean;
-  departSoon?: boolean; // morning-ready flag
+  departSoon?: boolean; // morning-ready flag, mirrors an assignment in the departure timetable
   plannedMoves?: PlanStep[]; // optional, for preview & execution
   arrivalTime: number; // timestamp
   lastUpdated: number; // timestamp
@@ -29,13 +41,23 @@ export interface Node {
   metadata?: Record<string, any>;
 }
 
+export interface SlotTopology {
+  reversals: number; // direction changes needed to reach the slot from the mainline
+  deadEndDepth: number; // 1 at the throat of the siding, 2 behind one slot, ...
+  switchesCrossed: number;
+  behindSlot?: string; // slot a train has to pass through to get here
+  exitSwitches?: number; // fewest switches on the way out through an exit, if there is one
+}
+
 export interface SidingSlot {
   id: string;
   sidingId: string; // S1..S12
   slot: 'a' | 'b';
   occupiedBy?: string; // trainId
-  reverseCost?: number; // precomputed cost from yardDefinition
-  blockingRisk?: 'low' | 'medium' | 'high'; // configurable / computed
+  reverseCost?: number; // derived from the track layout unless set in yardDefinition metadata
+  blockingRisk?: 'low' | 'medium' | 'high'; // derived from the track layout unless set in yardDefinition metadata
+  exitProximity?: number; // switches fewer on the way out than from the slot farthest from an exit
+  topology?: SlotTopology;
 }
 
 export interface PlanStep {
@@ -46,17 +68,29 @@ export interface PlanStep {
   durationMs: number;
   fromNode: string;
   toNode: string;
+  path?: string[]; // nodes passed on a move step, inclusive
+}
+
+export interface Route {
+  nodes: string[]; // node path from origin to destination, inclusive
+  segments: string[]; // track segments traversed
+  length: number; // track length in px
+  switchCount: number;
+  cost: number; // routing cost (length + switch penalties)
 }
 
 export interface Plan {
   id: string;
   trainId: string;
+  targetId?: string; // destination node
   steps: PlanStep[];
   estimatedDuration: number;
   requiredLocks: string[];
   warnings: string[];
   cost: number;
+  switchCount?: number;
   status: 'preview' | 'executing' | 'completed' | 'failed';
+  failureReason?: string;
   createdAt: number;
 }
 
@@ -67,7 +101,13 @@ export interface InspectionBay {
   occupiedBy?: string;
   inspectionStartTime?: number;
   inspectionDuration: number; // default 5 minutes
-  status: 'free' | 'occupied' | 'cleaning';
+  status: 'free' | 'occupied' | 'cleaning' | 'closed';
+  outage?: BayOutage; // closed to trains until it ends, once any train in it has left
+}
+
+export interface BayOutage {
+  reason: string;
+  until: number;
 }
 
 export interface WorkshopLine {
@@ -80,16 +120,145 @@ export interface WorkshopLine {
   status: 'free' | 'occupied' | 'maintenance';
 }
 
+export interface SwitchState {
+  id: string;
+  nodeId: string;
+  position: string; // leg the switch is set towards
+  positions: string[]; // its legs: every neighbour but the trunk they all share
+  throwTimeMs: number;
+  locked: boolean; // held by a reserved route
+  lastChanged?: number; // timestamp
+}
+
+export interface DepartureSlot {
+  id: string;
+  serviceName: string; // e.g. 'Service 101'
+  departureTime: number; // simulation timestamp the train should leave the yard
+  exitPointId: string;
+  trainId?: string;
+  status: 'planned' | 'dispatched' | 'departed' | 'missed';
+  warnings: string[]; // readiness problems found at the last review
+  dispatchedAt?: number;
+  departedAt?: number;
+  lateByMs?: number;
+}
+
+export interface CleaningJob {
+  id: string;
+  trainId: string;
+  type: CleaningType;
+  location: 'bay' | 'siding';
+  bayId?: string; // bay the train is brought into, for bay jobs
+  scheduledFor: number; // earliest start, simulation timestamp
+  durationMs: number;
+  status: 'scheduled' | 'in-progress' | 'completed' | 'cancelled';
+  startedAt?: number;
+  completedAt?: number;
+}
+
+export interface BrandingContract {
+  id: string;
+  advertiser: string;
+  requiredHours: number; // contracted service hours per period, across all linked trains
+  periodMs: number;
+  periodStart: number; // simulation timestamp the current period began
+  trainIds: string[]; // trainsets carrying the wrap
+  exposureHours: Record<string, number>; // service hours each linked train has run this period
+}
+
+export interface InductionDecision {
+  trainId: string;
+  decision: 'service' | 'standby' | 'hold';
+  rank: number; // 1 = strongest candidate in the fleet
+  score: number;
+  reasons: string[];
+  departureId?: string; // service proposed for the train
+}
+
+export interface InductionPlan {
+  id: string;
+  createdAt: number;
+  decisions: InductionDecision[]; // service in departure order, then standby, then hold
+  mileageBalance: { current: number; projected: number }; // fleet balance score now and after the planned service day
+  status: 'proposed' | 'accepted';
+}
+
 export interface YardState {
   trains: Record<string, Train>;
   inspectionBays: Record<string, InspectionBay>;
   workshopLines: Record<string, WorkshopLine>;
   sidingSlots: Record<string, SidingSlot>;
+  switches: Record<string, SwitchState>;
+  departures: Record<string, DepartureSlot>;
+  brandingContracts: Record<string, BrandingContract>;
+  cleaningJobs: Record<string, CleaningJob>;
+  cleaningCrews: number; // jobs that can run at once
+  scoringPolicies: Record<string, ScoringPolicy>;
+  activeScoringPolicyId: string;
+  recommendationStrategies: Record<string, StrategySummary>; // registered with the simulator
+  activeStrategyId: string;
+  inductionPlan?: InductionPlan; // latest nightly induction proposal
   lockedSegments: Set<string>;
   activePlans: Record<string, Plan>;
   eventLog: YardEvent[];
+  seed: number; // the random source's seed; with the same commands it replays a manual-clock run
   simulationSpeed: number; // multiplier for time
-  lastUpdate: number;
+  paused: boolean; // simulation clock stopped
+  lastUpdate: number; // simulation time the snapshot was taken
+}
+
+export type YardScenario = 'empty' | 'preset';
+
+export interface ScenarioTrain {
+  number: string; // how the rest of the file refers to the train
+  fitness?: number;
+  mileage?: number;
+  failures?: string[];
+  priority?: boolean;
+  departSoon?: boolean;
+}
+
+// A scripted drill, checked against the schema in lib/scenarios when loaded; times are
+// minutes after the scenario starts
+export interface ScenarioDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  seed?: number;
+  startTime?: string; // HH:MM the drill starts at, the current time if not given
+  occupancy?: { nodeId: string; train: ScenarioTrain }[];
+  arrivals?: { atMinute: number; train: ScenarioTrain }[];
+  failures?: { atMinute: number; trainNumber: string; failure: string }[];
+  bayOutages?: { atMinute: number; bayId: string; durationMinutes: number; reason?: string }[];
+  departures?: { time: string; serviceName?: string; exitPointId?: string; trainNumber?: string }[]; // replaces the default timetable
+}
+
+// The shipped scenarios that loaded, and what was wrong with each file that didn't
+export interface ScenarioLibrary {
+  scenarios: ScenarioDefinition[];
+  failures: { file: string; message: string }[];
+}
+
+export interface SimulatorOptions {
+  startTime?: number; // simulation time to start from, the wall clock if not given
+  seed?: number; // a fresh one is drawn if not given
+  random?: (seed: number) => () => number; // generator for simulated chance, mulberry32 if not given
+  manualClock?: boolean; // only advanced by run-until and fast-forward, never by the wall clock
+  autoAccept?: boolean; // take the top siding recommendation for trains normally left to the operator
+}
+
+export interface StartingPlacement {
+  nodeId: string; // siding slot or workshop line the train starts in
+  train: Partial<Train>;
+}
+
+export interface StartingContract {
+  advertiser: string;
+  requiredHours: number;
+  periodDays: number;
+  trainNumbers: string[]; // preset trains carrying the wrap
+  elapsedDays: number; // how far into the period the simulation starts
+  exposureHours: Record<string, number>; // by train number
 }
 
 export interface YardEvent {
@@ -120,22 +289,201 @@ export interface YardDefinition {
   exitPoints: string[];
 }
 
+export interface ScoringPolicy {
+  id: string;
+  name: string;
+  siding: {
+    base: number;
+    departSoonFrontBonus: number;
+    departSoonRearPenalty: number;
+    reverseCostPenalty: number; // per unit of reverse cost
+    lowRiskBonus: number;
+    highRiskPenalty: number;
+    priorityProximityBonus: number; // per switch fewer on the way out
+    switchPenalty: number; // per switch on the route
+  };
+  workshop: {
+    base: number;
+    specialisationBonus: number;
+    priorityPrimaryLineBonus: number;
+  };
+}
+
+export interface ScoreTerm {
+  label: string;
+  points: number;
+}
+
 export interface AssignmentRecommendation {
   targetId: string;
   targetType: 'siding' | 'workshop' | 'test';
   slot?: 'a' | 'b';  
   score: number;
+  scoreBreakdown: ScoreTerm[]; // terms that add up to the score
   reverseCost: number;
   distanceEstimate: number;
   blockingRisk: 'low' | 'medium' | 'high';
   ETAToPark: number;
   estimatedShuntSteps: number;
+  switchCount?: number; // switches crossed on the route
+  route?: string[]; // node path to the target
   reasoning: string[];
   warnings: string[];
 }
 
+// What a strategy sees of the yard when ranking targets; routes already steer round standing trains
+export interface RecommendationContext {
+  state: YardState;
+  definition: YardDefinition;
+  policy: ScoringPolicy;
+  now: number;
+  findRoute: (fromNodeId: string, toNodeId: string) => Route | null;
+  estimateTravelTime: (route: Route) => number;
+  isSlotAvailable: (slotId: string) => boolean; // free, with its way in clear
+  expectedArrivals: ScheduledArrival[]; // announced trains still to reach the entry, soonest first
+}
+
+export interface RecommendationStrategy {
+  id: string;
+  name: string;
+  description: string;
+  recommendSidings: (train: Train, context: RecommendationContext) => AssignmentRecommendation[];
+  recommendWorkshops: (train: Train, context: RecommendationContext) => AssignmentRecommendation[];
+  recommendTestTrack: (train: Train, context: RecommendationContext) => AssignmentRecommendation[];
+}
+
+export type StrategySummary = Pick<RecommendationStrategy, 'id' | 'name' | 'description'>;
+
+export interface ScheduledArrival {
+  arrivesAt: number; // simulation time the train reaches the entry
+  train: Partial<Train>;
+}
+
+export interface ComparisonVariant {
+  label: string;
+  strategyId: string;
+  policy: ScoringPolicy;
+}
+
+export interface ComparisonConfig {
+  seed: number;
+  scenario: YardScenario | ScenarioDefinition;
+  startTime: number;
+  arrivals: number; // trains arriving after the start
+  arrivalIntervalMs: number; // average gap between arrivals
+  variants: [ComparisonVariant, ComparisonVariant];
+  strategies?: RecommendationStrategy[]; // registered on top of the built-in ones
+}
+
+export interface ComparisonKpis {
+  shuntMoves: number;
+  averageTimeToParkMs: number;
+  parkedArrivals: number; // arrivals that made it to a siding, out of the total
+  blockedDepartures: number; // booked trains found behind another train at dispatch
+  bayUtilisation: number; // share of bay time occupied, 0-100
+  lateDispatches: number; // services that left late or were missed
+}
+
+export interface ComparisonRun {
+  variant: ComparisonVariant;
+  kpis: ComparisonKpis;
+  endTime: number;
+}
+
+export interface ComparisonResult {
+  config: Omit<ComparisonConfig, 'strategies'>;
+  runs: [ComparisonRun, ComparisonRun];
+}
+
+// Batch runs outside the browser; each list is one axis of the sweep
+export interface SweepDefinition {
+  scenarios: (YardScenario | ScenarioDefinition)[];
+  seeds: number[];
+  strategies: string[];
+  policies: ScoringPolicy[];
+  arrivals: number[]; // generated on top of any the scenario brings
+  arrivalIntervalMs: number;
+  startTime: number;
+}
+
+export interface HeadlessRun {
+  id: string;
+  scenario: YardScenario | ScenarioDefinition;
+  seed: number;
+  strategyId: string;
+  policy: ScoringPolicy;
+  arrivals: number;
+  arrivalIntervalMs: number;
+  startTime: number;
+}
+
+export interface HeadlessResult {
+  run: HeadlessRun;
+  kpis: ComparisonKpis;
+  startTime: number; // when the scenario actually started
+  endTime: number;
+  events: YardEvent[];
+}
+
+// What a sweep keeps of each run once its event log is written out
+export interface HeadlessSummary {
+  id: string;
+  scenario: string;
+  seed: number;
+  strategy: string;
+  policy: string;
+  arrivals: number;
+  startTime: string; // ISO
+  endTime: string;
+  kpis: ComparisonKpis;
+}
+
+// Keyed collections in the state, patched entry by entry
+export type RecordStateKey =
+  'trains' | 'inspectionBays' | 'workshopLines' | 'sidingSlots' | 'switches' | 'departures' |
+  'brandingContracts' | 'cleaningJobs' | 'scoringPolicies' | 'recommendationStrategies' | 'activePlans';
+
+export interface RecordPatch<T> {
+  set?: Record<string, T>; // added or changed entries
+  removed?: string[];
+}
+
+// What changed in the state since the last patch; anything not mentioned is unchanged
+export interface StatePatch {
+  records?: { [K in RecordStateKey]?: RecordPatch<YardState[K][string]> };
+  values?: Partial<Omit<YardState, RecordStateKey | 'eventLog'>>; // replaced whole
+  events?: YardEvent[]; // appended to the event log
+  eventLog?: YardEvent[]; // replaces the event log, after a reset
+}
+
+// Messages to the simulator worker
+export type SimulatorRequest =
+  | { type: 'init'; definition: YardDefinition; scenario: YardScenario | ScenarioDefinition; policies: ScoringPolicy[] }
+  | { type: 'command'; command: SimulatorCommand };
+
+// Messages back from it
+export type SimulatorResponse =
+  | { type: 'ready'; state: YardState }
+  | { type: 'patch'; patch: StatePatch }
+  | { type: 'error'; message: string };
+
+// Comparisons run in a worker of their own, so the live yard keeps ticking meanwhile
+export interface ComparisonRequest {
+  requestId: number;
+  definition: YardDefinition;
+  config: Omit<ComparisonConfig, 'strategies'>;
+}
+
+export type ComparisonResponse =
+  | { type: 'comparison'; requestId: number; result: ComparisonResult }
+  | { type: 'error'; requestId: number; message: string };
+
 export interface SimulatorCommand {
-  type: 'create_train' | 'assign_train' | 'remove_train' | 'preview_plan' | 'execute_plan' | 'pause' | 'resume' | 'speed_change';
+  type: 'create_train' | 'assign_train' | 'remove_train' | 'preview_plan' | 'execute_plan' | 'cancel_plan' | 'pause' | 'resume' | 'speed_change' | 'fast_forward' | 'run_until' | 'reset' |
+        'add_departure' | 'assign_departure' | 'remove_departure' | 'plan_induction' | 'accept_induction' |
+        'renew_certificate' | 'add_branding_contract' | 'remove_branding_contract' |
+        'schedule_cleaning' | 'cancel_cleaning' | 'set_cleaning_crews' |
+        'save_scoring_policy' | 'select_scoring_policy' | 'delete_scoring_policy' | 'select_strategy' | 'load_scenario';
   trainId?: string;
   data?: Record<string, any>;
 }
\ No newline at end of file
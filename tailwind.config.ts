@@ -60,6 +60,7 @@ export default {
         track: {
           DEFAULT: "hsl(var(--track))",
           active: "hsl(var(--track-active))",
+          locked: "hsl(var(--track-locked))",
         },
         node: "hsl(var(--node))",
         train: {